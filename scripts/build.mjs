@@ -25,6 +25,8 @@ await run("npx", ["tsc", "-p", "tsconfig.json"]);
 await copyFile("manifest.json", "dist/manifest.json");
 await copyFile("src/popup.html", "dist/popup.html");
 await copyFile("src/popup.css", "dist/popup.css");
+await copyFile("src/options.html", "dist/options.html");
+await copyFile("src/options.css", "dist/options.css");
 await cp("assets", "dist/assets", { recursive: true });
 
 console.log("Build complete. Load /dist as unpacked extension.");
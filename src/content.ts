@@ -6,7 +6,19 @@ type NizoAction =
   | "openReplay"
   | "getUserDetails"
   | "getReplayErrors"
-  | "getReplayNetworkErrors";
+  | "getReplayNetworkErrors"
+  | "getMultiEventPrompt"
+  | "getReplayConsoleErrors"
+  | "getReplayInteractionTrail"
+  | "exportReplayHar"
+  | "listIssueReplays"
+  | "getReplayPerformance"
+  | "getReplayRageClicks"
+  | "getUserIssues"
+  | "getIssueOverview"
+  | "getIssueTagDistribution"
+  | "getSuspectCommits"
+  | "getIssueOwnership";
 
 type PageType = "issue" | "replay" | "other";
 
@@ -21,7 +33,7 @@ type PageContext = {
 type ReplayResolution = {
   replayId: string;
   replayUrl: string;
-  source: "url" | "dom" | "dom-click" | "api";
+  source: "url" | "selected" | "dom" | "dom-click" | "api";
 };
 
 type SentryFrame = {
@@ -32,17 +44,67 @@ type SentryFrame = {
   module?: string;
   lineno?: number;
   colno?: number;
+  in_app?: boolean;
+  context?: Array<[number, string]>;
+  pre_context?: string[];
+  context_line?: string;
+  post_context?: string[];
+  vars?: Record<string, unknown> | null;
+};
+
+type SentryStacktrace = { frames?: SentryFrame[] } | null;
+
+type StackStyle = "v8" | "python" | "jvm" | "dart" | "generic";
+
+type NormalizedFrame = {
+  functionName: string | null;
+  file: string | null;
+  module: string | null;
+  lineNo: string | null;
+  colNo: string | null;
+  inApp: boolean | null;
+};
+
+type SentryMechanism = {
+  type?: string;
+  handled?: boolean | null;
+  exception_id?: number;
+  parent_id?: number;
+  is_exception_group?: boolean;
 };
 
 type SentryException = {
   type?: string;
   value?: string;
-  stacktrace?: { frames?: SentryFrame[] };
-  raw_stacktrace?: { frames?: SentryFrame[] };
+  module?: string;
+  thread_id?: number | string | null;
+  mechanism?: SentryMechanism | null;
+  stacktrace?: SentryStacktrace;
+  raw_stacktrace?: SentryStacktrace;
+};
+
+type SentryThread = {
+  id?: number | string;
+  name?: string | null;
+  crashed?: boolean;
+  current?: boolean;
+  state?: string | null;
+  stacktrace?: SentryStacktrace;
+  raw_stacktrace?: SentryStacktrace;
+};
+
+type SentryBreadcrumb = {
+  timestamp?: string | number;
+  type?: string;
+  category?: string;
+  level?: string;
+  message?: string | null;
+  data?: Record<string, unknown> | null;
 };
 
 type SentryEvent = {
   eventID?: string;
+  dateCreated?: string;
   title?: string;
   culprit?: string;
   platform?: string;
@@ -52,14 +114,415 @@ type SentryEvent = {
   entries?: Array<{ type?: string; data?: Record<string, unknown> }>;
 };
 
+type PromptTrim = {
+  section: string;
+  detail: string;
+};
+
+type PromptResult = {
+  prompt: string;
+  size: number;
+  trimmed: PromptTrim[];
+};
+
+type EventComparison = {
+  eventIds: string[];
+  constant: Record<string, string>;
+  varying: Record<string, Array<{ value: string; count: number }>>;
+  constantFrames: string[];
+  varyingFrames: Array<{ frame: string; count: number }>;
+};
+
+type SentryIssue = {
+  id?: string;
+  shortId?: string;
+  title?: string;
+  culprit?: string;
+  level?: string;
+  status?: string;
+  substatus?: string | null;
+  statusDetails?: Record<string, unknown>;
+  priority?: string | null;
+  firstSeen?: string;
+  lastSeen?: string;
+  count?: string | number;
+  userCount?: number;
+  isUnhandled?: boolean;
+  permalink?: string;
+  firstRelease?: { version?: string; dateCreated?: string } | null;
+  lastRelease?: { version?: string; dateCreated?: string } | null;
+  assignedTo?: { type?: string; id?: string; name?: string; email?: string } | null;
+  stats?: Record<string, Array<[number, number]>>;
+  activity?: Array<{ type?: string; dateCreated?: string; data?: Record<string, unknown> }>;
+  project?: { slug?: string };
+  owners?: Array<{ type?: string; owner?: string; date_added?: string }> | null;
+};
+
+type SentryOwnerActor = {
+  type?: string;
+  id?: string | number;
+  name?: string;
+  email?: string;
+};
+
+type OwnerSuggestion = {
+  owner: string;
+  type: string;
+  reasons: string[];
+};
+
+type SentryOwnershipRule = {
+  matcher?: { type?: string; pattern?: string };
+  owners?: Array<{ type?: string; identifier?: string }>;
+};
+
+type SentryEventOwners = {
+  owners?: SentryOwnerActor[];
+  rules?: SentryOwnershipRule[];
+};
+
+type SentryOwnership = {
+  raw?: string | null;
+  fallthrough?: boolean;
+  autoAssignment?: string;
+};
+
+type SentryCommitAuthor = {
+  name?: string;
+  email?: string;
+};
+
+type SentryCommit = {
+  id?: string;
+  message?: string | null;
+  dateCreated?: string;
+  author?: SentryCommitAuthor | null;
+  repository?: { name?: string } | null;
+  suspectCommitType?: string;
+  pullRequest?: { title?: string; externalUrl?: string } | null;
+};
+
+type SentryCommitters = {
+  committers?: Array<{ author?: SentryCommitAuthor | null; commits?: SentryCommit[] }>;
+};
+
+type SentryRelease = {
+  version?: string;
+  dateCreated?: string;
+  dateReleased?: string | null;
+  commitCount?: number;
+  deployCount?: number;
+  lastDeploy?: { environment?: string; dateFinished?: string; name?: string | null } | null;
+  authors?: SentryCommitAuthor[];
+};
+
+type CommitReport = {
+  release: Record<string, unknown> | null;
+  suspectCommits: Array<Record<string, unknown>>;
+  releaseCommits: Array<Record<string, unknown>>;
+  releaseCommitsTruncated: boolean;
+  notes: string[];
+};
+
+type SentryTagFacet = {
+  key?: string;
+  name?: string;
+  totalValues?: number;
+  uniqueValues?: number;
+  topValues?: Array<{ value?: string | null; name?: string; count?: number }>;
+};
+
+type SentryEventIdLookup = {
+  groupId?: string | number;
+  eventId?: string;
+  projectSlug?: string;
+  event?: SentryEvent & { groupID?: string | number; dateReceived?: string };
+};
+
 type SentryReplay = {
   id?: string;
   count_errors?: number;
   error_ids?: string[] | null;
+  started_at?: string | null;
   project_id?: string | number;
   project?: string | { id?: string | number; slug?: string };
 };
 
+type SentryPage<T> = {
+  data: T;
+  headers: Headers;
+  nextCursor: string | null;
+};
+
+type RecordingSegmentScan = {
+  segments: unknown[];
+  segmentsScanned: number;
+  truncated: boolean;
+  error: string | null;
+};
+
+type PromptTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+type NizoSettings = {
+  promptTemplates: PromptTemplate[];
+  defaultTemplateId: string;
+  breadcrumbCount: number;
+  includeSourceContext: boolean;
+  includeFrameVars: boolean;
+  collapseLibraryFrames: boolean;
+  includeRequest: boolean;
+  includeRuntime: boolean;
+  redactHeaders: boolean;
+  compareEventCount: number;
+  promptBudget: number;
+  promptBudgetUnit: "tokens" | "characters";
+  trailStepCount: number;
+  maxRecordingSegments: number;
+  networkBodyMaxLength: number;
+  replayLookback: string;
+  replayEnvironment: string;
+  replayRelease: string;
+  replayErrorsMode: "dom" | "api";
+  slowRequestThresholdMs: number;
+  slowestRequestCount: number;
+  longTaskThresholdMs: number;
+  vitalThresholds: Record<string, [number, number]>;
+  userIssuesPeriod: string;
+  tagConcentrationThreshold: number;
+  includeSuspectCommits: boolean;
+};
+
+type ActionOptions = {
+  templateId?: string;
+  harScope?: "all" | "failures";
+  replayId?: string;
+};
+
+const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: "default",
+  name: "Default",
+  body: [
+    "You are a senior software engineer helping debug a Sentry production issue.",
+    "",
+    "Issue context:",
+    "{{summary}}",
+    "",
+    "{{#request}}",
+    "Request:",
+    "{{request}}",
+    "{{/request}}",
+    "",
+    "{{#runtime}}",
+    "Runtime:",
+    "{{runtime}}",
+    "{{/runtime}}",
+    "",
+    "{{#commits}}",
+    "Release and suspect commits:",
+    "{{commits}}",
+    "{{/commits}}",
+    "",
+    "Raw stacktrace:",
+    "{{stacktrace}}",
+    "",
+    "{{#comparison}}",
+    "Comparison across recent events:",
+    "{{comparison}}",
+    "{{/comparison}}",
+    "",
+    "{{#breadcrumbs}}",
+    "Breadcrumbs (oldest first, offsets relative to the error):",
+    "{{breadcrumbs}}",
+    "{{/breadcrumbs}}",
+    "",
+    "Tasks:",
+    "1. Identify the most likely root cause and why.",
+    "2. Suggest the minimum safe fix with implementation notes.",
+    "3. Provide 2-3 high-signal checks/tests to validate the fix.",
+    "4. Highlight any assumptions or missing telemetry."
+  ].join("\n")
+};
+
+const DEFAULT_SETTINGS: NizoSettings = {
+  promptTemplates: [],
+  defaultTemplateId: DEFAULT_PROMPT_TEMPLATE.id,
+  breadcrumbCount: 20,
+  includeSourceContext: true,
+  includeFrameVars: false,
+  collapseLibraryFrames: false,
+  includeRequest: true,
+  includeRuntime: true,
+  redactHeaders: true,
+  compareEventCount: 5,
+  promptBudget: 0,
+  promptBudgetUnit: "tokens",
+  trailStepCount: 15,
+  maxRecordingSegments: 500,
+  networkBodyMaxLength: 2000,
+  replayLookback: "14d",
+  replayEnvironment: "",
+  replayRelease: "",
+  replayErrorsMode: "dom",
+  slowRequestThresholdMs: 3000,
+  slowestRequestCount: 10,
+  longTaskThresholdMs: 50,
+  vitalThresholds: {},
+  userIssuesPeriod: "14d",
+  tagConcentrationThreshold: 80,
+  includeSuspectCommits: false
+};
+
+const LIBRARY_PATH_PATTERNS = [
+  /node_modules\//,
+  /(^|\/)webpack\//,
+  /^package:flutter\//,
+  /^dart:/,
+  /(site|dist)-packages\//,
+  /\/lib\/python\d/,
+  /^<frozen /,
+  /^(java|javax|jdk|sun|kotlin|kotlinx|android|androidx|dalvik)\./,
+  /(^|\/)zone(\.min)?\.js$/,
+  /^\/usr\/lib\//
+];
+
+const STACK_STYLE_BY_PLATFORM: Record<string, StackStyle> = {
+  javascript: "v8",
+  node: "v8",
+  python: "python",
+  java: "jvm",
+  kotlin: "jvm",
+  android: "jvm",
+  scala: "jvm",
+  groovy: "jvm",
+  dart: "dart",
+  flutter: "dart"
+};
+
+const SAFE_HEADER_NAMES = new Set([
+  "accept",
+  "accept-encoding",
+  "accept-language",
+  "content-length",
+  "content-type",
+  "host",
+  "user-agent",
+  "cache-control",
+  "content-encoding",
+  "date",
+  "retry-after",
+  "server",
+  "x-request-id"
+]);
+
+const REDACTED = "[redacted]";
+
+const MAX_REPLAY_ERROR_LOOKUPS = 50;
+
+const REPLAY_DETAIL_FIELDS = ["id", "project_id", "project", "started_at"];
+
+const MAX_RELEASE_COMMITS = 50;
+
+const MAX_ISSUE_REPLAYS = 500;
+
+const MAX_USER_ISSUES = 500;
+
+const GROUP_OWNER_REASONS: Record<string, string> = {
+  suspectCommit: "suspect commit",
+  ownershipRule: "ownership rule",
+  codeowners: "code owners"
+};
+
+const NO_COMMITS_EXPLANATION =
+  "Sentry has no commits for this release, so it cannot suggest suspect commits. " +
+  "Connect a repository integration (GitHub, GitLab, Bitbucket, Azure DevOps) and associate " +
+  "commits with each release, for example with `sentry-cli releases set-commits --auto`.";
+
+const FEATURED_TAG_KEYS = [
+  "browser",
+  "browser.name",
+  "os",
+  "os.name",
+  "release",
+  "environment",
+  "url",
+  "transaction",
+  "device",
+  "device.family"
+];
+
+const WEB_VITAL_NAMES: Record<string, string> = {
+  "largest-contentful-paint": "LCP",
+  "cumulative-layout-shift": "CLS",
+  "interaction-to-next-paint": "INP",
+  "first-input-delay": "FID",
+  "first-contentful-paint": "FCP",
+  "time-to-first-byte": "TTFB"
+};
+
+const DEFAULT_VITAL_THRESHOLDS: Record<string, [number, number]> = {
+  LCP: [2500, 4000],
+  CLS: [0.1, 0.25],
+  INP: [200, 500],
+  FID: [100, 300],
+  FCP: [1800, 3000],
+  TTFB: [800, 1800]
+};
+
+function loadSettings(): Promise<NizoSettings> {
+  return new Promise((resolve) => {
+    if (!chrome.storage?.sync) {
+      resolve({ ...DEFAULT_SETTINGS });
+      return;
+    }
+    chrome.storage.sync.get(DEFAULT_SETTINGS, (items: Partial<NizoSettings>) => {
+      if (chrome.runtime.lastError || !items) {
+        resolve({ ...DEFAULT_SETTINGS });
+        return;
+      }
+      resolve({ ...DEFAULT_SETTINGS, ...items });
+    });
+  });
+}
+
+function resolvePromptTemplate(settings: NizoSettings, templateId?: string): PromptTemplate {
+  const templates = [
+    DEFAULT_PROMPT_TEMPLATE,
+    ...(Array.isArray(settings.promptTemplates) ? settings.promptTemplates : [])
+  ].filter((template) => template && typeof template.body === "string");
+
+  const requestedIds = [templateId, settings.defaultTemplateId];
+  for (const id of requestedIds) {
+    const match = id ? templates.find((template) => template.id === id) : undefined;
+    if (match) {
+      return match;
+    }
+  }
+  return DEFAULT_PROMPT_TEMPLATE;
+}
+
+function templateUsesAny(template: PromptTemplate, placeholders: string[]): boolean {
+  return placeholders.some((key) =>
+    new RegExp(`\\{\\{\\s*[#/]?${key}\\s*\\}\\}`).test(template.body)
+  );
+}
+
+function renderPromptTemplate(template: PromptTemplate, values: Record<string, string>): string {
+  const withSections = template.body.replace(
+    /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+    (_match, key: string, inner: string) => (values[key]?.trim() ? inner : "")
+  );
+  return withSections
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+      key in values ? values[key] : match
+    )
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
 function getAccessibleDocuments(): Document[] {
   const docs: Document[] = [];
   const seen = new Set<Document>();
@@ -180,6 +643,11 @@ function inferOrganizationSlugFromDom(): string | null {
   return null;
 }
 
+function getOrganizationSlugFromHost(hostname: string): string | null {
+  const match = hostname.match(/^([^.]+)\.sentry\.io$/);
+  return match && !["www", "us", "de"].includes(match[1]) ? match[1] : null;
+}
+
 function getPageContext(): PageContext {
   const pathname = window.location.pathname;
 
@@ -188,7 +656,10 @@ function getPageContext(): PageContext {
     /^\/([^/]+)\/issues\//,
     /^\/([^/]+)\/replays\//
   ]);
-  const organizationSlug = organizationFromPath || inferOrganizationSlugFromDom();
+  const organizationSlug =
+    organizationFromPath ||
+    inferOrganizationSlugFromDom() ||
+    getOrganizationSlugFromHost(window.location.hostname);
 
   const issueId = firstPathMatch(pathname, [
     /^\/organizations\/[^/]+\/issues\/([^/?#]+)/,
@@ -248,7 +719,7 @@ function getPageContext(): PageContext {
 
   return {
     origin: window.location.origin,
-    organizationSlug: null,
+    organizationSlug,
     issueId: null,
     replayId: null,
     pageType: "other"
@@ -264,11 +735,11 @@ function assertOrganization(ctx: PageContext): string {
   return ctx.organizationSlug;
 }
 
-async function sentryGet<T>(
+async function sentryGetPage<T>(
   ctx: PageContext,
   path: string,
   query?: Record<string, string | number | Array<string | number>>
-): Promise<T> {
+): Promise<SentryPage<T>> {
   const url = new URL(path, ctx.origin);
   if (query) {
     for (const [key, value] of Object.entries(query)) {
@@ -296,7 +767,32 @@ async function sentryGet<T>(
     throw new Error(`Sentry API error: ${body || fallback}`);
   }
 
-  return (await response.json()) as T;
+  return {
+    data: (await response.json()) as T,
+    headers: response.headers,
+    nextCursor: parseNextCursor(response.headers.get("Link"))
+  };
+}
+
+function parseNextCursor(linkHeader: string | null): string | null {
+  for (const part of (linkHeader || "").split(",")) {
+    if (!/rel="next"/.test(part) || !/results="true"/.test(part)) {
+      continue;
+    }
+    const match = part.match(/cursor="([^"]+)"/);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
+}
+
+async function sentryGet<T>(
+  ctx: PageContext,
+  path: string,
+  query?: Record<string, string | number | Array<string | number>>
+): Promise<T> {
+  return (await sentryGetPage<T>(ctx, path, query)).data;
 }
 
 function toRows(value: unknown): Array<Record<string, unknown>> {
@@ -320,6 +816,32 @@ function toRows(value: unknown): Array<Record<string, unknown>> {
   return [];
 }
 
+async function sentryGetAllRows(
+  ctx: PageContext,
+  path: string,
+  query: Record<string, string | number | Array<string | number>>,
+  maxRows: number
+): Promise<{ rows: Array<Record<string, unknown>>; truncated: boolean }> {
+  const rows: Array<Record<string, unknown>> = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: SentryPage<unknown> = await sentryGetPage<unknown>(ctx, path, {
+      ...query,
+      per_page: Math.min(100, maxRows - rows.length),
+      ...(cursor ? { cursor } : {})
+    });
+    const pageRows = toRows(page.data);
+    rows.push(...pageRows.slice(0, maxRows - rows.length));
+    cursor = pageRows.length ? page.nextCursor : null;
+    if (cursor && rows.length >= maxRows) {
+      return { rows, truncated: true };
+    }
+  } while (cursor);
+
+  return { rows, truncated: false };
+}
+
 async function getLatestIssueEvent(ctx: PageContext): Promise<SentryEvent> {
   const organizationSlug = assertOrganization(ctx);
   if (!ctx.issueId) {
@@ -331,983 +853,1731 @@ async function getLatestIssueEvent(ctx: PageContext): Promise<SentryEvent> {
   );
 }
 
-function formatFrame(frame: SentryFrame): string {
-  const fn = frame.raw_function || frame.function || "<anonymous>";
-  const file = frame.filename || frame.abs_path || frame.module || "unknown";
-  const line = frame.lineno ?? "?";
-  const col = frame.colno ?? "?";
-  return `${fn} (${file}:${line}:${col})`;
+function getStackStyle(platform: string | null | undefined): StackStyle {
+  return (platform && STACK_STYLE_BY_PLATFORM[platform.toLowerCase()]) || "generic";
 }
 
-function normalizeFrames(frames: SentryFrame[] | undefined): string {
-  if (!frames || !frames.length) {
-    return "(no frames)";
+function toNormalizedFrame(frame: SentryFrame): NormalizedFrame {
+  const dartPath = frame.abs_path && /^(package|dart):/.test(frame.abs_path) ? frame.abs_path : null;
+  return {
+    functionName: frame.raw_function || frame.function || null,
+    file: dartPath || frame.filename || frame.abs_path || null,
+    module: frame.module || null,
+    lineNo: frame.lineno !== undefined && frame.lineno !== null ? String(frame.lineno) : null,
+    colNo: frame.colno !== undefined && frame.colno !== null ? String(frame.colno) : null,
+    inApp: typeof frame.in_app === "boolean" ? frame.in_app : null
+  };
+}
+
+function formatFrame(frame: NormalizedFrame, index: number, style: StackStyle): string {
+  const fn = frame.functionName || "<anonymous>";
+  const line = frame.lineNo ? `:${frame.lineNo}` : "";
+  const col = frame.colNo ? `:${frame.colNo}` : "";
+
+  switch (style) {
+    case "v8": {
+      const location = `${frame.file || frame.module || "<unknown>"}${line}${col}`;
+      return frame.functionName ? `    at ${fn} (${location})` : `    at ${location}`;
+    }
+    case "python":
+      return `  File "${frame.file || frame.module || "<unknown>"}", line ${frame.lineNo || "?"}, in ${fn}`;
+    case "jvm": {
+      const qualified = frame.module ? `${frame.module}.${fn}` : fn;
+      return `    at ${qualified}(${frame.file || "Unknown Source"}${line})`;
+    }
+    case "dart": {
+      const file = frame.file || "<unknown>";
+      const location =
+        frame.module && !/^(package|dart):/.test(file) ? `package:${frame.module}/${file}` : file;
+      return `  #${index}      ${fn} (${location}${line}${col})`;
+    }
+    default:
+      return `- ${fn} (${frame.file || frame.module || "unknown"}:${frame.lineNo || "?"}:${
+        frame.colNo || "?"
+      })`;
   }
-  return [...frames]
-    .reverse()
-    .map((frame) => `- ${formatFrame(frame)}`)
-    .join("\n");
 }
 
-function getExceptionValues(event: SentryEvent): SentryException[] {
-  const entries = Array.isArray(event.entries) ? event.entries : [];
-  const exceptionEntry = entries.find((entry) => entry.type === "exception");
-  const values = exceptionEntry?.data?.values;
-  if (!Array.isArray(values)) {
+function formatCollapsedFrames(summary: string, style: StackStyle): string {
+  switch (style) {
+    case "v8":
+    case "jvm":
+      return `    ${summary}`;
+    case "python":
+    case "dart":
+      return `  ${summary}`;
+    default:
+      return `- ${summary}`;
+  }
+}
+
+function getFrameContextLines(frame: SentryFrame): Array<[number, string]> {
+  if (Array.isArray(frame.context) && frame.context.length) {
+    return frame.context.filter(
+      (line): line is [number, string] =>
+        Array.isArray(line) && typeof line[0] === "number" && typeof line[1] === "string"
+    );
+  }
+  if (typeof frame.context_line !== "string" || typeof frame.lineno !== "number") {
     return [];
   }
-  return values as SentryException[];
+
+  const lineNo = frame.lineno;
+  const pre = Array.isArray(frame.pre_context) ? frame.pre_context : [];
+  const post = Array.isArray(frame.post_context) ? frame.post_context : [];
+  return [
+    ...pre.map((line, index): [number, string] => [lineNo - pre.length + index, line]),
+    [lineNo, frame.context_line],
+    ...post.map((line, index): [number, string] => [lineNo + 1 + index, line])
+  ];
 }
 
-function extractRawStacktrace(event: SentryEvent): string {
-  const values = getExceptionValues(event);
-  if (!values.length) {
-    throw new Error("No exception stacktrace found in the latest event.");
+function formatFrameContext(frame: SentryFrame): string[] {
+  const lines = getFrameContextLines(frame);
+  if (!lines.length) {
+    return [];
   }
+  const width = Math.max(...lines.map(([lineNo]) => String(lineNo).length));
+  return lines.map(([lineNo, code]) => {
+    const marker = lineNo === frame.lineno ? ">" : " ";
+    return `      ${marker} ${String(lineNo).padStart(width)} | ${code.replace(/\s+$/, "")}`;
+  });
+}
 
-  return values
-    .map((exception, index) => {
-      const header = `${index + 1}. ${exception.type || "Exception"}${
-        exception.value ? `: ${exception.value}` : ""
-      }`;
-      const frames = exception.raw_stacktrace?.frames || exception.stacktrace?.frames;
-      return `${header}\n${normalizeFrames(frames)}`;
-    })
-    .join("\n\n");
+function formatFrameVars(frame: SentryFrame): string[] {
+  const vars = asObject(frame.vars);
+  if (!vars) {
+    return [];
+  }
+  return Object.entries(vars).map(([name, value]) => {
+    const rendered = typeof value === "string" ? value : JSON.stringify(value);
+    return `        ${name} = ${truncateText(rendered ?? "undefined", 160)}`;
+  });
 }
 
-function buildPrompt(event: SentryEvent, stacktrace: string): string {
-  const summaryItems: string[] = [];
-  if (event.title) {
-    summaryItems.push(`- Title: ${event.title}`);
+function isLibraryLocation(location: string): boolean {
+  return LIBRARY_PATH_PATTERNS.some((pattern) => pattern.test(location));
+}
+
+function getLibraryName(location: string): string {
+  const nodeModule = location.match(/node_modules\/((?:@[^/]+\/)?[^/]+)/);
+  if (nodeModule) {
+    return nodeModule[1];
   }
-  if (event.eventID) {
-    summaryItems.push(`- Event ID: ${event.eventID}`);
+  const dartPackage = location.match(/^package:([^/]+)\//);
+  if (dartPackage) {
+    return dartPackage[1];
   }
-  if (event.culprit) {
-    summaryItems.push(`- Culprit: ${event.culprit}`);
+  const dartLibrary = location.match(/^dart:[\w.]+/);
+  if (dartLibrary) {
+    return dartLibrary[0];
   }
-  if (event.platform) {
-    summaryItems.push(`- Platform: ${event.platform}`);
+  const pythonPackage = location.match(/(?:site|dist)-packages\/([^/]+)/);
+  if (pythonPackage) {
+    return pythonPackage[1];
   }
-  const summary = summaryItems.length
-    ? summaryItems.join("\n")
-    : "- Context fields unavailable from page/API.";
+  if (/^[\w$]+(\.[\w$]+)+$/.test(location) && !/\.(js|mjs|cjs|ts|py|dart)$/.test(location)) {
+    const segments = location.split(".");
+    const qualified = /^(java|javax|jdk|sun|kotlin|kotlinx|android|androidx|dalvik|com|org|io|net)$/.test(
+      segments[0]
+    );
+    return segments.slice(0, qualified ? 2 : 1).join(".");
+  }
+  const basename = location.split(/[\\/]/).filter(Boolean).pop();
+  return basename || "unknown";
+}
 
-  return [
-    "You are a senior software engineer helping debug a Sentry production issue.",
-    "",
-    "Issue context:",
-    summary,
-    "",
-    "Raw stacktrace:",
-    stacktrace,
-    "",
-    "Tasks:",
-    "1. Identify the most likely root cause and why.",
-    "2. Suggest the minimum safe fix with implementation notes.",
-    "3. Provide 2-3 high-signal checks/tests to validate the fix.",
-    "4. Highlight any assumptions or missing telemetry."
-  ].join("\n");
+function summarizeLibraryRun(count: number, names: string[]): string {
+  const unique = Array.from(new Set(names.filter(Boolean)));
+  const listed = unique.slice(0, 4).join(", ");
+  const more = unique.length > 4 ? `, +${unique.length - 4} more` : "";
+  return `… ${count} library frame${count === 1 ? "" : "s"}${listed ? ` (${listed}${more})` : ""}`;
 }
 
-function getPageText(): string {
-  const textParts: string[] = [];
-  const docs = getAccessibleDocuments();
-  for (const doc of docs) {
-    if (doc.body?.innerText) {
-      textParts.push(doc.body.innerText);
+function collapseLibraryRuns<T>(
+  frames: T[],
+  isInApp: (frame: T) => boolean,
+  libraryName: (frame: T) => string,
+  render: (frame: T, index: number) => string,
+  renderCollapsed: (summary: string) => string
+): string[] {
+  const lines: string[] = [];
+  let run: T[] = [];
+
+  const flush = (): void => {
+    if (!run.length) {
+      return;
     }
-    const shadowRoots = queryAllDeepInRoot<HTMLElement>(doc, "*")
-      .map((el) => (el as HTMLElement & { shadowRoot?: ShadowRoot | null }).shadowRoot)
-      .filter((root): root is ShadowRoot => Boolean(root));
-    for (const shadowRoot of shadowRoots) {
-      const shadowText = shadowRoot.textContent?.trim() || "";
-      if (shadowText) {
-        textParts.push(shadowText);
-      }
+    lines.push(renderCollapsed(summarizeLibraryRun(run.length, run.map(libraryName))));
+    run = [];
+  };
+
+  frames.forEach((frame, index) => {
+    if (isInApp(frame)) {
+      flush();
+      lines.push(render(frame, index));
+    } else {
+      run.push(frame);
     }
-  }
-  return textParts.join("\n");
+  });
+  flush();
+  return lines;
 }
 
-function getIssueTitleFromDom(): string | null {
-  const selectors = [
-    '[data-test-id="issue-title"]',
-    '[data-testid="issue-title"]',
-    '[data-test-id="issue-header"] h1',
-    "main h1",
-    "h1"
-  ];
+function getFrameLibraryName(frame: SentryFrame): string {
+  const location = frame.abs_path || frame.filename || "";
+  if (frame.module && !/[\\/]/.test(location)) {
+    return getLibraryName(frame.module);
+  }
+  return getLibraryName(location || frame.module || "");
+}
 
-  for (const selector of selectors) {
-    const el = queryFirstEverywhere<HTMLElement>(selector);
-    const text = el?.textContent?.trim() || "";
-    if (text && text.length > 3) {
-      return text;
+function formatSentryFrameLines(
+  frame: SentryFrame,
+  index: number,
+  settings: NizoSettings,
+  style: StackStyle
+): string {
+  const lines = [formatFrame(toNormalizedFrame(frame), index, style)];
+  if (frame.in_app) {
+    if (settings.includeSourceContext) {
+      lines.push(...formatFrameContext(frame));
+    }
+    if (settings.includeFrameVars) {
+      const vars = formatFrameVars(frame);
+      if (vars.length) {
+        lines.push("      locals:", ...vars);
+      }
     }
   }
+  return lines.join("\n");
+}
 
-  const titleFromDocument = document.title
-    .replace(/\s+\|\s+Sentry.*$/i, "")
-    .replace(/\s+\|\s+Issue.*$/i, "")
-    .trim();
-  return titleFromDocument || null;
+function normalizeFrames(
+  frames: SentryFrame[] | undefined,
+  settings: NizoSettings,
+  style: StackStyle
+): string {
+  if (!frames || !frames.length) {
+    return "(no frames)";
+  }
+  const ordered = [...frames].reverse();
+  if (!settings.collapseLibraryFrames || !ordered.some((frame) => frame.in_app)) {
+    return ordered
+      .map((frame, index) => formatSentryFrameLines(frame, index, settings, style))
+      .join("\n");
+  }
+  return collapseLibraryRuns(
+    ordered,
+    (frame) => Boolean(frame.in_app),
+    (frame) => getFrameLibraryName(frame),
+    (frame, index) => formatSentryFrameLines(frame, index, settings, style),
+    (summary) => formatCollapsedFrames(summary, style)
+  ).join("\n");
 }
 
-function getEventIdFromDom(): string | null {
-  const pageText = getPageText();
-  const match = pageText.match(/\bEvent ID:\s*([a-zA-Z0-9]+)/i);
-  return match ? match[1] : null;
+function getExceptionValues(event: SentryEvent): SentryException[] {
+  const entries = Array.isArray(event.entries) ? event.entries : [];
+  const exceptionEntry = entries.find((entry) => entry.type === "exception");
+  const values = exceptionEntry?.data?.values;
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  return values as SentryException[];
 }
 
-function isStackNoiseLine(line: string): boolean {
-  const normalized = line.trim().toLowerCase();
-  if (!normalized) {
-    return true;
+function getThreadValues(event: SentryEvent): SentryThread[] {
+  const entries = Array.isArray(event.entries) ? event.entries : [];
+  const threadsEntry = entries.find((entry) => entry.type === "threads");
+  const values = threadsEntry?.data?.values;
+  if (!Array.isArray(values)) {
+    return [];
   }
+  return values.filter(Boolean) as SentryThread[];
+}
 
-  const exactNoise = new Set([
-    "stack trace",
-    "most relevant",
-    "full stack trace",
-    "newest",
-    "display",
-    "unsymbolicated",
-    "raw stack trace",
-    "in app"
-  ]);
+function getStackFrames(
+  source: Pick<SentryException, "raw_stacktrace" | "stacktrace">
+): SentryFrame[] | undefined {
+  const frames = source.raw_stacktrace?.frames || source.stacktrace?.frames;
+  return Array.isArray(frames) && frames.length ? frames : undefined;
+}
 
-  if (exactNoise.has(normalized)) {
-    return true;
-  }
+function getPrimaryException(values: SentryException[]): SentryException | null {
+  return (
+    values.find((exception) => exception.mechanism?.exception_id === 0) ||
+    values[values.length - 1] ||
+    null
+  );
+}
 
-  if (/^\d{1,2}:\d{2}\s*(am|pm)$/i.test(normalized)) {
-    return true;
+function formatMechanism(mechanism: SentryMechanism | null | undefined): string {
+  if (!mechanism) {
+    return "";
+  }
+  const parts: string[] = [];
+  if (mechanism.type) {
+    parts.push(`mechanism: ${mechanism.type}`);
+  }
+  if (typeof mechanism.handled === "boolean") {
+    parts.push(mechanism.handled ? "handled" : "unhandled");
   }
+  return parts.length ? ` [${parts.join(", ")}]` : "";
+}
 
-  return false;
+function formatExceptionHeader(exception: SentryException): string {
+  return `${exception.type || "Exception"}${exception.value ? `: ${exception.value}` : ""}${formatMechanism(
+    exception.mechanism
+  )}`;
 }
 
-function parseFrameFromPrettyLine(line: string): {
-  functionName: string;
-  file: string;
-  lineNo: string;
-  moduleName: string | null;
-} | null {
-  const match = line.match(/^(.+?)\s+in\s+(.+?)\s+at line\s+(\d+)(?:\s+within\s+(.+))?$/i);
-  if (!match) {
-    return null;
-  }
+function selectThread(threads: SentryThread[], threadId?: number | string | null): SentryThread | null {
+  const withFrames = threads.filter((thread) => getStackFrames(thread));
+  const byId =
+    threadId !== undefined && threadId !== null
+      ? withFrames.find((thread) => String(thread.id) === String(threadId))
+      : undefined;
+  return (
+    byId ||
+    withFrames.find((thread) => thread.crashed) ||
+    withFrames.find((thread) => thread.current) ||
+    withFrames[0] ||
+    null
+  );
+}
 
-  const file = match[1].trim();
-  const functionName = match[2].trim();
-  const lineNo = match[3].trim();
-  const moduleName = match[4]?.trim() || null;
+function formatThread(thread: SentryThread, settings: NizoSettings, style: StackStyle): string {
+  const flags = [
+    thread.id !== undefined ? `id ${thread.id}` : null,
+    thread.crashed ? "crashed" : null,
+    thread.current ? "current" : null,
+    thread.state ? thread.state.toLowerCase() : null
+  ].filter((flag): flag is string => Boolean(flag));
+  const name = thread.name ? ` "${thread.name}"` : "";
+  const header = `Thread${name}${flags.length ? ` (${flags.join(", ")})` : ""}`;
+  return `${header}\n${normalizeFrames(getStackFrames(thread), settings, style)}`;
+}
 
-  if (!file || !functionName || !lineNo) {
-    return null;
+function formatExceptionBlock(
+  exception: SentryException,
+  label: string,
+  threads: SentryThread[],
+  settings: NizoSettings,
+  style: StackStyle
+): string {
+  const header = `${label}${formatExceptionHeader(exception)}`;
+  const frames = getStackFrames(exception);
+  if (!frames && exception.thread_id !== undefined && exception.thread_id !== null) {
+    const thread = selectThread(threads, exception.thread_id);
+    if (thread && String(thread.id) === String(exception.thread_id)) {
+      return `${header}\n${formatThread(thread, settings, style)}`;
+    }
   }
-
-  return { functionName, file, lineNo, moduleName };
+  return `${header}\n${normalizeFrames(frames, settings, style)}`;
 }
 
-function formatFrameAsRaw(
-  frame: { functionName: string; file: string; lineNo: string; moduleName: string | null },
-  index: number
+function formatExceptionChain(
+  values: SentryException[],
+  threads: SentryThread[],
+  settings: NizoSettings,
+  style: StackStyle
 ): string {
-  const location = frame.moduleName
-    ? `package:${frame.moduleName}/${frame.file}:${frame.lineNo}`
-    : `${frame.file}:${frame.lineNo}`;
-  return `  #${index}      ${frame.functionName} (${location})`;
+  const hasChainIds = values.some((exception) => typeof exception.mechanism?.exception_id === "number");
+  if (values.length < 2 || !hasChainIds) {
+    return values
+      .map((exception, index) =>
+        formatExceptionBlock(exception, `${index + 1}. `, threads, settings, style)
+      )
+      .join("\n\n");
+  }
+
+  const childrenByParent = new Map<number, SentryException[]>();
+  const roots: SentryException[] = [];
+  for (const exception of values) {
+    const parentId = exception.mechanism?.parent_id;
+    if (typeof parentId === "number") {
+      childrenByParent.set(parentId, [...(childrenByParent.get(parentId) || []), exception]);
+    } else {
+      roots.push(exception);
+    }
+  }
+  roots.sort((a, b) => (a.mechanism?.exception_id ?? 0) - (b.mechanism?.exception_id ?? 0));
+
+  const blocks: string[] = [];
+  const visited = new Set<SentryException>();
+  const visit = (exception: SentryException, label: string): void => {
+    if (visited.has(exception)) {
+      return;
+    }
+    visited.add(exception);
+    blocks.push(formatExceptionBlock(exception, label, threads, settings, style));
+    const exceptionId = exception.mechanism?.exception_id;
+    const children = typeof exceptionId === "number" ? childrenByParent.get(exceptionId) || [] : [];
+    for (const child of children) {
+      visit(child, "Caused by: ");
+    }
+  };
+
+  roots.forEach((root, index) => visit(root, roots.length > 1 ? `${index + 1}. ` : ""));
+  values
+    .filter((exception) => !visited.has(exception))
+    .forEach((exception) => visit(exception, "Caused by: "));
+  return blocks.join("\n\n");
 }
 
-function toRawStacktraceFromSection(sectionText: string): string | null {
-  const lines = sectionText
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => !isStackNoiseLine(line));
+function extractRawStacktrace(event: SentryEvent, settings: NizoSettings): string {
+  const values = getExceptionValues(event);
+  const threads = getThreadValues(event);
+  const style = getStackStyle(event.platform);
 
-  if (!lines.length) {
-    return null;
+  if (!values.length) {
+    const thread = selectThread(threads);
+    if (!thread) {
+      throw new Error("No exception or thread stacktrace found in the latest event.");
+    }
+    return formatThread(thread, settings, style);
   }
 
-  const alreadyRawStart = lines.findIndex((line) => /^#\d+\s+/.test(line));
-  if (alreadyRawStart >= 0) {
-    const head = lines.slice(0, alreadyRawStart).join(" ").trim();
-    const rawLines = lines.slice(alreadyRawStart);
-    return [head, ...rawLines].filter(Boolean).join("\n");
+  const hasExceptionFrames = values.some((exception) => getStackFrames(exception));
+  if (!hasExceptionFrames && threads.length) {
+    const primary = getPrimaryException(values);
+    const thread = selectThread(threads, primary?.thread_id);
+    if (primary && thread) {
+      return `${formatExceptionHeader(primary)}\n${formatThread(thread, settings, style)}`;
+    }
   }
 
-  const parsedFrames = lines
-    .map((line) => parseFrameFromPrettyLine(line))
-    .filter((frame): frame is NonNullable<typeof frame> => Boolean(frame));
-
-  if (!parsedFrames.length) {
-    return lines.slice(0, 220).join("\n");
-  }
+  return formatExceptionChain(values, threads, settings, style);
+}
 
-  const firstFrameLine = lines.findIndex((line) => parseFrameFromPrettyLine(line) !== null);
-  const beforeFrames = firstFrameLine > 0 ? lines.slice(0, firstFrameLine) : [];
+function hasEventStackFrames(event: SentryEvent): boolean {
+  return (
+    getExceptionValues(event).some((exception) => getStackFrames(exception)) ||
+    getThreadValues(event).some((thread) => getStackFrames(thread))
+  );
+}
 
-  let header = "";
-  if (beforeFrames.length >= 2 && !beforeFrames[0].includes(":")) {
-    header = `${beforeFrames[0]}: ${beforeFrames[1]}`;
-  } else if (beforeFrames.length >= 1) {
-    header = beforeFrames[0];
+async function getIssueEvent(ctx: PageContext, eventId: string): Promise<SentryEvent> {
+  const organizationSlug = assertOrganization(ctx);
+  if (!ctx.issueId) {
+    throw new Error("This action requires an issue page.");
   }
-
-  const rawFrames = parsedFrames.map((frame, index) => formatFrameAsRaw(frame, index));
-  return [header, ...rawFrames].filter(Boolean).join("\n");
+  return sentryGet<SentryEvent>(
+    ctx,
+    `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/events/${eventId}/`
+  );
 }
 
-function extractStacktraceFromDom(): string | null {
-  const pageText = getPageText();
-  const startMatch = pageText.match(/\bStack Trace\b/i);
-  if (!startMatch || startMatch.index === undefined) {
+async function getIssueEventForPage(
+  ctx: PageContext,
+  eventId: string | null
+): Promise<SentryEvent | null> {
+  if (!ctx.organizationSlug || !ctx.issueId) {
     return null;
   }
+  const loaders: Array<() => Promise<SentryEvent>> = [];
+  if (eventId) {
+    loaders.push(() => getIssueEvent(ctx, eventId));
+  }
+  loaders.push(() => getLatestIssueEvent(ctx));
 
-  const sectionText = pageText.slice(startMatch.index);
-  const endMarkers = [
-    /\bSession Replay\b/i,
-    /\bBreadcrumbs\b/i,
-    /\bTags\b/i,
-    /\bContexts\b/i,
-    /\bEvent Data\b/i,
-    /\bAdditional Data\b/i
-  ];
-
-  let endIndex = sectionText.length;
-  for (const marker of endMarkers) {
-    const markerMatch = sectionText.match(marker);
-    if (
-      markerMatch &&
-      markerMatch.index !== undefined &&
-      markerMatch.index > 20 &&
-      markerMatch.index < endIndex
-    ) {
-      endIndex = markerMatch.index;
+  for (const load of loaders) {
+    try {
+      return await load();
+    } catch {
+      continue;
     }
   }
+  return null;
+}
 
-  const rawSection = sectionText.slice(0, endIndex);
-  const normalized = toRawStacktraceFromSection(rawSection);
-  if (!normalized || normalized.length < 30) {
-    return null;
+function getBreadcrumbs(event: SentryEvent): SentryBreadcrumb[] {
+  const entries = Array.isArray(event.entries) ? event.entries : [];
+  const breadcrumbEntry = entries.find((entry) => entry.type === "breadcrumbs");
+  const values = breadcrumbEntry?.data?.values;
+  if (!Array.isArray(values)) {
+    return [];
   }
+  return values.filter(Boolean) as SentryBreadcrumb[];
+}
 
-  return normalized;
+function toEpochMs(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
 }
 
-function parseReplayFromUrl(rawUrl: string): { replayId: string; replayUrl: string } | null {
-  if (!rawUrl) {
-    return null;
+function truncateText(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function describeBreadcrumb(breadcrumb: SentryBreadcrumb): string {
+  const category = breadcrumb.category || breadcrumb.type || "default";
+  const data = breadcrumb.data || {};
+  const message = normalizeText(breadcrumb.message || "");
+
+  if (category === "navigation") {
+    const from = toStringValue(data.from) || "?";
+    const to = toStringValue(data.to) || message || "?";
+    return `navigation: ${from} → ${to}`;
   }
 
-  try {
-    const parsed = new URL(rawUrl, window.location.origin);
-    const patterns = [
-      /^\/organizations\/[^/]+\/replays\/([^/?#]+)\/?$/i,
-      /^\/replays\/([^/?#]+)\/?$/i,
-      /^\/[^/]+\/replays\/([^/?#]+)\/?$/i
-    ];
+  if (category === "fetch" || category === "xhr" || category === "http") {
+    const method = toStringValue(data.method) || "GET";
+    const url = toStringValue(data.url) || message;
+    const status = toStringValue(data.status_code);
+    return `${category}: ${method} ${url}${status ? ` → ${status}` : ""}`;
+  }
 
-    for (const pattern of patterns) {
-      const match = parsed.pathname.match(pattern);
-      if (match && match[1]) {
-        return {
-          replayId: decodeSafe(match[1]),
-          replayUrl: parsed.toString()
-        };
-      }
-    }
-  } catch {
-    return null;
+  if (category === "console") {
+    return `console.${breadcrumb.level || "log"}: ${message}`;
   }
 
-  return null;
+  if (message) {
+    return `${category}: ${message}`;
+  }
+  const dataText = Object.keys(data).length ? JSON.stringify(data) : "";
+  return dataText ? `${category}: ${dataText}` : category;
 }
 
-function getReplayCtaElements(): HTMLElement[] {
-  const ctaPhrases = ["see full replay", "see all replays", "open replay", "view replay"];
-  return queryAllEverywhere<HTMLElement>(
-    "button, [role='button'], a, [data-href], [data-url]"
-  ).filter((el) => {
-    const text = (el.textContent || "").trim().toLowerCase();
-    return ctaPhrases.some((phrase) => text.includes(phrase));
-  });
+function formatBreadcrumbs(event: SentryEvent, count: number): string {
+  if (count <= 0) {
+    return "";
+  }
+  const breadcrumbs = getBreadcrumbs(event).slice(-count);
+  const referenceMs =
+    toEpochMs(event.dateCreated) ??
+    toEpochMs(breadcrumbs[breadcrumbs.length - 1]?.timestamp);
+
+  return breadcrumbs
+    .map((breadcrumb) => {
+      const timestampMs = toEpochMs(breadcrumb.timestamp);
+      let time = "?";
+      if (timestampMs !== null && referenceMs !== null) {
+        const offsetSeconds = (timestampMs - referenceMs) / 1000;
+        time = `${offsetSeconds > 0 ? "+" : ""}${offsetSeconds.toFixed(1)}s`;
+      } else if (timestampMs !== null) {
+        time = new Date(timestampMs).toISOString().slice(11, 23);
+      }
+      return `- [${time}] ${truncateText(describeBreadcrumb(breadcrumb), 240)}`;
+    })
+    .join("\n");
 }
 
-function readReplayUrlFromElement(element: Element): string | null {
-  const attrs = ["href", "data-href", "data-url", "data-to"];
-  for (const attr of attrs) {
-    const value = element.getAttribute(attr);
-    if (value && value.includes("/replays/")) {
-      return value;
-    }
+function toPairs(value: unknown): Array<[string, string]> {
+  if (Array.isArray(value)) {
+    return value
+      .filter((pair): pair is [unknown, unknown] => Array.isArray(pair) && pair.length >= 2)
+      .map(([key, item]) => [String(key), item === null || item === undefined ? "" : String(item)]);
   }
+  const obj = asObject(value);
+  if (obj) {
+    return Object.entries(obj).map(([key, item]) => [
+      key,
+      item === null || item === undefined ? "" : String(item)
+    ]);
+  }
+  if (typeof value === "string" && value.trim()) {
+    return value
+      .replace(/^\?/, "")
+      .split(/[&;]\s*/)
+      .filter(Boolean)
+      .map((part) => {
+        const separator = part.indexOf("=");
+        return separator >= 0
+          ? [part.slice(0, separator).trim(), part.slice(separator + 1)]
+          : [part.trim(), ""];
+      });
+  }
+  return [];
+}
 
-  if (element instanceof HTMLAnchorElement && element.href.includes("/replays/")) {
-    return element.href;
+function formatRequest(event: SentryEvent, settings: NizoSettings): string {
+  const entries = Array.isArray(event.entries) ? event.entries : [];
+  const request = entries.find((entry) => entry.type === "request")?.data;
+  if (!request) {
+    return "";
   }
 
-  const onClick = element.getAttribute("onclick");
-  if (onClick) {
-    const match = onClick.match(/['"]([^'"]*\/replays\/[^'"]+)['"]/i);
-    if (match && match[1]) {
-      return match[1];
+  const lines: string[] = [];
+  const method = toStringValue(request.method);
+  const url = toStringValue(request.url);
+  if (method || url) {
+    lines.push(`- ${[method, url].filter(Boolean).join(" ")}`);
+  }
+
+  const query = toPairs(request.query);
+  if (query.length) {
+    lines.push(`- Query: ${query.map(([key, value]) => `${key}=${value}`).join("&")}`);
+  }
+
+  const headers = toPairs(request.headers);
+  if (headers.length) {
+    lines.push("- Headers:");
+    for (const [name, value] of headers) {
+      const redact = settings.redactHeaders && !SAFE_HEADER_NAMES.has(name.toLowerCase());
+      lines.push(`  - ${name}: ${redact ? REDACTED : truncateText(value, 200)}`);
     }
   }
 
-  return null;
+  const cookies = toPairs(request.cookies);
+  if (cookies.length) {
+    lines.push(
+      `- Cookies: ${cookies
+        .map(([name, value]) => `${name}=${settings.redactHeaders ? REDACTED : truncateText(value, 80)}`)
+        .join("; ")}`
+    );
+  }
+
+  return lines.join("\n");
 }
 
-function extractReplayFromDom(): ReplayResolution | null {
-  const ctaPhrases = ["see full replay", "see all replays", "open replay", "view replay"];
+function describeContext(key: string, context: Record<string, unknown>): string {
+  const name = toStringValue(context.name);
+  const version = toStringValue(context.version);
+  const type = toStringValue(context.type) || key;
+
+  if (type === "trace") {
+    const fields = ["trace_id", "span_id", "parent_span_id", "op", "status"]
+      .map((field) => [field, toStringValue(context[field])])
+      .filter(([, value]) => value)
+      .map(([field, value]) => `${field}=${value}`);
+    return fields.join(", ");
+  }
 
-  const allAnchors = queryAllEverywhere<HTMLAnchorElement>("a[href]");
-  const prioritizedAnchors = allAnchors
-    .filter((anchor) => {
-      const text = (anchor.textContent || "").trim().toLowerCase();
-      return ctaPhrases.some((phrase) => text.includes(phrase));
-    })
-    .concat(allAnchors.filter((anchor) => anchor.href.includes("/replays/")));
+  if (type === "device") {
+    return [toStringValue(context.brand), toStringValue(context.model) || name, toStringValue(context.arch)]
+      .filter(Boolean)
+      .join(" ");
+  }
 
-  for (const anchor of prioritizedAnchors) {
-    const parsed = parseReplayFromUrl(anchor.href);
-    if (parsed) {
-      return {
-        replayId: parsed.replayId,
-        replayUrl: parsed.replayUrl,
-        source: "dom"
-      };
-    }
+  if (name && ["runtime", "os", "browser", "app", "client_os"].includes(type)) {
+    const build = toStringValue(context.build);
+    return [name, version, build ? `(build ${build})` : null].filter(Boolean).join(" ");
   }
 
-  const ctaElements = getReplayCtaElements();
+  const fields = Object.fromEntries(
+    Object.entries(context).filter(([field, value]) => field !== "type" && value !== null && value !== "")
+  );
+  return truncateText(JSON.stringify(fields), 300);
+}
 
-  for (const element of ctaElements) {
-    const ownUrl = readReplayUrlFromElement(element);
-    if (ownUrl) {
-      const parsed = parseReplayFromUrl(ownUrl);
-      if (parsed) {
-        return {
-          replayId: parsed.replayId,
-          replayUrl: parsed.replayUrl,
-          source: "dom"
-        };
+function formatRuntimeContexts(event: SentryEvent): string {
+  const contexts = event.contexts || {};
+  return Object.entries(contexts)
+    .map(([key, value]) => {
+      const context = asObject(value);
+      if (!context) {
+        return null;
       }
-    }
-
-    const closestAnchor = element.closest("a[href]");
-    if (closestAnchor) {
-      const parsed = parseReplayFromUrl((closestAnchor as HTMLAnchorElement).href);
-      if (parsed) {
-        return {
-          replayId: parsed.replayId,
-          replayUrl: parsed.replayUrl,
-          source: "dom"
-        };
-      }
-    }
-  }
+      const description = describeContext(key, context);
+      return description && description !== "{}" ? `- ${key}: ${description}` : null;
+    })
+    .filter((line): line is string => Boolean(line))
+    .join("\n");
+}
 
-  return null;
+function formatTags(tags: SentryEvent["tags"]): string {
+  return Object.entries(tagsToRecord(tags))
+    .map(([key, value]) => `- ${key}: ${value}`)
+    .join("\n");
 }
 
-function wait(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function formatUser(user: SentryEvent["user"]): string {
+  if (!user) {
+    return "";
+  }
+  return Object.entries(user)
+    .filter(([, value]) => value !== null && value !== undefined && value !== "")
+    .map(([key, value]) => `- ${key}: ${typeof value === "object" ? JSON.stringify(value) : String(value)}`)
+    .join("\n");
 }
 
-async function extractReplayByClickingCta(): Promise<ReplayResolution | null> {
-  const ctaElements = getReplayCtaElements();
-  if (!ctaElements.length) {
-    return null;
+function buildPrompt(
+  event: SentryEvent,
+  stacktrace: string,
+  template: PromptTemplate,
+  settings: NizoSettings,
+  comparison = "",
+  commits = ""
+): PromptResult {
+  const summaryItems: string[] = [];
+  if (event.title) {
+    summaryItems.push(`- Title: ${event.title}`);
+  }
+  if (event.eventID) {
+    summaryItems.push(`- Event ID: ${event.eventID}`);
   }
+  if (event.culprit) {
+    summaryItems.push(`- Culprit: ${event.culprit}`);
+  }
+  if (event.platform) {
+    summaryItems.push(`- Platform: ${event.platform}`);
+  }
+  const mechanism = getPrimaryException(getExceptionValues(event))?.mechanism;
+  if (mechanism && typeof mechanism.handled === "boolean") {
+    summaryItems.push(
+      `- Handled: ${mechanism.handled ? "yes" : "no"}${mechanism.type ? ` (mechanism: ${mechanism.type})` : ""}`
+    );
+  }
+  const summary = summaryItems.length
+    ? summaryItems.join("\n")
+    : "- Context fields unavailable from page/API.";
 
-  const beforeUrl = window.location.href;
-  ctaElements[0].click();
+  return assemblePrompt(template, {
+    summary,
+    title: event.title || "",
+    eventId: event.eventID || "",
+    culprit: event.culprit || "",
+    platform: event.platform || "",
+    stacktrace,
+    tags: formatTags(event.tags),
+    user: formatUser(event.user),
+    breadcrumbs: formatBreadcrumbs(event, settings.breadcrumbCount),
+    request: settings.includeRequest ? formatRequest(event, settings) : "",
+    runtime: settings.includeRuntime ? formatRuntimeContexts(event) : "",
+    commits,
+    comparison
+  }, settings);
+}
 
-  for (let attempt = 0; attempt < 10; attempt += 1) {
-    await wait(200);
+function measurePrompt(text: string, unit: NizoSettings["promptBudgetUnit"]): number {
+  return unit === "characters" ? text.length : Math.ceil(text.length / 4);
+}
 
-    const replayFromDom = extractReplayFromDom();
-    if (replayFromDom) {
-      return {
-        ...replayFromDom,
-        source: "dom-click"
-      };
+function isStackFrameLine(line: string): boolean {
+  return /^(- |\s*at |\s*File "|\s*#\d+\s|\s*… \d+ (library )?frames?\b)/.test(line);
+}
+
+function trimStackMiddle(
+  stacktrace: string,
+  keepTop: number,
+  keepBottom: number
+): { text: string; removed: number } {
+  const output: string[] = [];
+  let run: string[][] = [];
+  let removed = 0;
+
+  const flush = (): void => {
+    if (run.length > keepTop + keepBottom + 1) {
+      const middle = run.slice(keepTop, run.length - keepBottom);
+      const previouslyOmitted = middle.reduce((total, frame) => {
+        const omitted = frame[0].match(/… (\d+) frames omitted to fit/);
+        return total + (omitted ? Number(omitted[1]) : 0);
+      }, 0);
+      const newlyDropped = middle.filter((frame) => !/… \d+ frames omitted to fit/.test(frame[0])).length;
+      const indent = run[keepTop][0].match(/^(\s*(?:- )?)/)?.[1] || "";
+      output.push(
+        ...run.slice(0, keepTop).flat(),
+        `${indent}… ${previouslyOmitted + newlyDropped} frames omitted to fit the prompt budget`,
+        ...run.slice(run.length - keepBottom).flat()
+      );
+      removed += newlyDropped;
+    } else {
+      output.push(...run.flat());
     }
+    run = [];
+  };
 
-    const replayFromLocation = parseReplayFromUrl(window.location.href);
-    if (replayFromLocation) {
-      if (window.location.href !== beforeUrl && window.history.length > 1) {
-        window.history.back();
-      }
-      return {
-        replayId: replayFromLocation.replayId,
-        replayUrl: replayFromLocation.replayUrl,
-        source: "dom-click"
-      };
+  for (const line of stacktrace.split("\n")) {
+    if (isStackFrameLine(line)) {
+      run.push([line]);
+    } else if (run.length && /^\s{4,}/.test(line)) {
+      run[run.length - 1].push(line);
+    } else {
+      flush();
+      output.push(line);
     }
   }
-
-  return null;
+  flush();
+  return { text: output.join("\n"), removed };
 }
 
-async function extractReplayFromDomWithRetry(): Promise<ReplayResolution | null> {
-  for (let attempt = 0; attempt < 8; attempt += 1) {
-    const replay = extractReplayFromDom();
-    if (replay) {
-      return replay;
-    }
-    await wait(250);
+const PROMPT_CUT_MARKER = "\n… [truncated to fit the prompt budget]\n";
+
+function cutPromptEnd(text: string, maxCharacters: number): string {
+  if (text.length <= maxCharacters) {
+    return text;
   }
-  return null;
+  return maxCharacters > PROMPT_CUT_MARKER.length
+    ? `${text.slice(0, maxCharacters - PROMPT_CUT_MARKER.length)}${PROMPT_CUT_MARKER}`
+    : "";
 }
 
-async function resolveReplay(ctx: PageContext): Promise<ReplayResolution> {
-  if (ctx.replayId) {
-    const organizationSlug = ctx.organizationSlug;
-    return {
-      replayId: ctx.replayId,
-      replayUrl: organizationSlug
-        ? `${ctx.origin}/organizations/${organizationSlug}/replays/${ctx.replayId}/`
-        : window.location.href,
-      source: "url"
-    };
+function cutPromptMiddle(text: string, maxCharacters: number): string {
+  if (text.length <= maxCharacters) {
+    return text;
+  }
+  const room = maxCharacters - PROMPT_CUT_MARKER.length;
+  if (room <= 0) {
+    return "";
   }
+  const head = Math.ceil(room / 2);
+  return `${text.slice(0, head)}${PROMPT_CUT_MARKER}${text.slice(text.length - (room - head))}`;
+}
+
+function assemblePrompt(
+  template: PromptTemplate,
+  initialValues: Record<string, string>,
+  settings: NizoSettings
+): PromptResult {
+  const values = { ...initialValues };
+  const unit = settings.promptBudgetUnit;
+  const limit = Math.max(0, Math.round(settings.promptBudget) || 0);
+  const trimmed: PromptTrim[] = [];
+  let prompt = renderPromptTemplate(template, values);
+  const fits = (): boolean => limit === 0 || measurePrompt(prompt, unit) <= limit;
+  const rerender = (): void => {
+    prompt = renderPromptTemplate(template, values);
+  };
+
+  const trimStack = (keepTop: number, keepBottom: number): void => {
+    const result = trimStackMiddle(values.stacktrace || "", keepTop, keepBottom);
+    if (result.removed > 0) {
+      values.stacktrace = result.text;
+      trimmed.push({ section: "stacktrace", detail: `dropped ${result.removed} middle frames` });
+      rerender();
+    }
+  };
+
+  const trimLines = (section: string, fromStart: boolean, keep: number, noun: string): void => {
+    const lines = (values[section] || "").split("\n").filter(Boolean);
+    let removed = 0;
+    while (!fits() && lines.length > keep) {
+      if (fromStart) {
+        lines.shift();
+      } else {
+        lines.pop();
+      }
+      removed += 1;
+      values[section] = lines.join("\n");
+      rerender();
+    }
+    if (removed > 0) {
+      trimmed.push({ section, detail: `dropped ${removed} ${noun}` });
+    }
+  };
 
-  const domReplay = await extractReplayFromDomWithRetry();
-  if (domReplay) {
-    return domReplay;
+  const dropSection = (section: string): void => {
+    if (values[section]?.trim()) {
+      values[section] = "";
+      trimmed.push({ section, detail: "removed" });
+      rerender();
+    }
+  };
+
+  const steps: Array<() => void> = [
+    () => trimStack(10, 5),
+    () => trimLines("breadcrumbs", true, 0, "oldest breadcrumbs"),
+    () => dropSection("runtime"),
+    () => dropSection("request"),
+    () => trimLines("commits", false, 1, "commit lines"),
+    () => trimLines("comparison", false, 1, "comparison lines"),
+    () => dropSection("tags"),
+    () => dropSection("user"),
+    () => trimStack(3, 2)
+  ];
+
+  for (const step of steps) {
+    if (fits()) {
+      break;
+    }
+    step();
   }
 
-  const clickedReplay = await extractReplayByClickingCta();
-  if (clickedReplay) {
-    return clickedReplay;
+  if (!fits()) {
+    // Cut the text before the stack first so its head and tail frames and the Tasks block after
+    // it survive; the stack itself is only cut in the middle.
+    const maxCharacters = unit === "characters" ? limit : limit * 4;
+    const stack = (values.stacktrace || "").trim();
+    const stackIndex = stack ? prompt.indexOf(stack) : -1;
+    const before = stackIndex >= 0 ? prompt.slice(0, stackIndex) : prompt;
+    const after = stackIndex >= 0 ? prompt.slice(stackIndex + stack.length) : "";
+    const keptStack = stackIndex >= 0 ? cutPromptMiddle(stack, maxCharacters - after.length) : "";
+    const keptBefore = cutPromptEnd(before, maxCharacters - after.length - keptStack.length);
+    if (keptBefore.length < before.length) {
+      trimmed.push({
+        section: "prompt",
+        detail: `cut ${before.length - keptBefore.length} characters before the stack trace`
+      });
+    }
+    if (keptStack.length < stack.length) {
+      trimmed.push({
+        section: "stacktrace",
+        detail: `cut ${stack.length - keptStack.length} characters from the middle`
+      });
+    }
+    prompt = `${keptBefore}${keptStack}${after}`;
+    if (prompt.length > maxCharacters) {
+      trimmed.push({
+        section: "prompt",
+        detail: `cut ${prompt.length - maxCharacters} characters from the end`
+      });
+      prompt = cutPromptEnd(prompt, maxCharacters);
+    }
   }
 
-  const organizationSlug = ctx.organizationSlug ? assertOrganization(ctx) : null;
+  return { prompt, size: measurePrompt(prompt, unit), trimmed };
+}
+
+function describePromptBudget(settings: NizoSettings): string | null {
+  const limit = Math.max(0, Math.round(settings.promptBudget) || 0);
+  return limit > 0 ? `${limit} ${settings.promptBudgetUnit}` : null;
+}
+
+async function getRecentIssueEvents(ctx: PageContext, count: number): Promise<SentryEvent[]> {
+  const organizationSlug = assertOrganization(ctx);
   if (!ctx.issueId) {
-    throw new Error("No replay found on this page.");
-  }
-  if (!organizationSlug) {
-    throw new Error("No replay link found in DOM for this issue.");
+    throw new Error("This action requires an issue page.");
   }
 
-  const replayRows = toRows(
-    await sentryGet<unknown>(ctx, `/api/0/organizations/${organizationSlug}/replays/`, {
-      query: `issue.id:${ctx.issueId}`,
-      statsPeriod: "14d",
-      per_page: 1,
-      sort: "-started_at",
-      field: ["id", "count_errors", "error_ids"]
+  const rows = toRows(
+    await sentryGet<unknown>(
+      ctx,
+      `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/events/`,
+      { full: "true", per_page: count }
+    )
+  ).slice(0, count) as SentryEvent[];
+
+  return Promise.all(
+    rows.map(async (row) => {
+      const eventId = row.eventID || toStringValue((row as Record<string, unknown>).id);
+      if (Array.isArray(row.entries) || !eventId) {
+        return row;
+      }
+      try {
+        return await getIssueEvent(ctx, eventId);
+      } catch {
+        return row;
+      }
     })
   );
-
-  const first = replayRows[0];
-  const replayId = typeof first?.id === "string" ? first.id : null;
-  if (!replayId) {
-    throw new Error("No replay is attached to this issue.");
-  }
-
-  return {
-    replayId,
-    replayUrl: `${ctx.origin}/organizations/${organizationSlug}/replays/${replayId}/`,
-    source: "api"
-  };
 }
 
-function tagsToRecord(tags: SentryEvent["tags"]): Record<string, string> {
-  const result: Record<string, string> = {};
-  for (const tag of tags || []) {
-    if (tag.key && tag.value) {
-      result[tag.key] = tag.value;
+function getEventDimensions(event: SentryEvent): Record<string, string> {
+  const dimensions: Record<string, string> = { ...tagsToRecord(event.tags) };
+  const browser = event.contexts?.browser;
+  const os = event.contexts?.os;
+  const user = event.user;
+
+  if (browser) {
+    const label = [toStringValue(browser.name), toStringValue(browser.version)].filter(Boolean).join(" ");
+    if (label) {
+      dimensions.browser = label;
     }
   }
-  return result;
+  if (os) {
+    const label = [toStringValue(os.name), toStringValue(os.version)].filter(Boolean).join(" ");
+    if (label) {
+      dimensions.os = label;
+    }
+  }
+  if (user) {
+    const identity =
+      toStringValue(user.id) ||
+      toStringValue(user.email) ||
+      toStringValue(user.username) ||
+      toStringValue(user.ip_address);
+    if (identity) {
+      dimensions.user = identity;
+    }
+  }
+  return dimensions;
 }
 
-async function getReplayErrorEvents(
-  ctx: PageContext,
-  replayId: string
-): Promise<Array<Record<string, unknown>>> {
-  const organizationSlug = assertOrganization(ctx);
-  try {
-    return toRows(
-      await sentryGet<unknown>(ctx, `/api/0/organizations/${organizationSlug}/events/`, {
-        query: `replay_id:${replayId}`,
-        field: ["title", "issue", "project", "timestamp", "id"],
-        sort: "-timestamp",
-        per_page: 20,
-        statsPeriod: "14d"
+function getEventFrameKeys(event: SentryEvent): string[] {
+  const values = getExceptionValues(event);
+  const primary = getPrimaryException(values);
+  const frames =
+    (primary && getStackFrames(primary)) ||
+    getStackFrames(selectThread(getThreadValues(event)) || {}) ||
+    [];
+  return Array.from(
+    new Set(
+      frames.map((frame) => {
+        const fn = frame.raw_function || frame.function || "<anonymous>";
+        const file = frame.filename || frame.abs_path || frame.module || "unknown";
+        return `${fn} (${file})`;
       })
-    );
-  } catch {
-    return [];
-  }
+    )
+  );
 }
 
-function normalizeText(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
+function compareEvents(events: SentryEvent[]): EventComparison {
+  const dimensionsPerEvent = events.map((event) => getEventDimensions(event));
+  const keys = Array.from(new Set(dimensionsPerEvent.flatMap((dimensions) => Object.keys(dimensions))));
+
+  const constant: Record<string, string> = {};
+  const varying: Record<string, Array<{ value: string; count: number }>> = {};
+  for (const key of keys.sort()) {
+    const counts = new Map<string, number>();
+    for (const dimensions of dimensionsPerEvent) {
+      const value = dimensions[key] ?? "(none)";
+      counts.set(value, (counts.get(value) || 0) + 1);
+    }
+    if (counts.size === 1) {
+      constant[key] = Array.from(counts.keys())[0];
+    } else {
+      varying[key] = Array.from(counts.entries())
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count);
+    }
+  }
 
-function extractEventId(text: string): string | null {
-  const match = text.match(/\b[a-f0-9]{8,32}\b/i);
-  return match ? match[0] : null;
-}
+  const framesPerEvent = events.map((event) => getEventFrameKeys(event));
+  const frameCounts = new Map<string, number>();
+  for (const frames of framesPerEvent) {
+    for (const frame of frames) {
+      frameCounts.set(frame, (frameCounts.get(frame) || 0) + 1);
+    }
+  }
+  const constantFrames: string[] = [];
+  const varyingFrames: Array<{ frame: string; count: number }> = [];
+  for (const [frame, count] of frameCounts) {
+    if (count === events.length) {
+      constantFrames.push(frame);
+    } else {
+      varyingFrames.push({ frame, count });
+    }
+  }
 
-function extractIssueKey(text: string): string | null {
-  const match = text.match(/\b[A-Z][A-Z0-9_-]+-[A-Z0-9]{2,}\b/);
-  return match ? match[0] : null;
+  return {
+    eventIds: events.map((event) => event.eventID || "").filter(Boolean),
+    constant,
+    varying,
+    constantFrames,
+    varyingFrames: varyingFrames.sort((a, b) => b.count - a.count)
+  };
 }
 
-function extractTimestamp(text: string): string | null {
-  const match = text.match(/\b\d{1,2}:\d{2}\b/);
-  return match ? match[0] : null;
-}
+function formatComparison(comparison: EventComparison, total: number): string {
+  const lines: string[] = [`Compared the latest ${total} events.`];
 
-function getReplayErrorsTabElement(): HTMLElement | null {
-  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
-  for (const candidate of candidates) {
-    const text = normalizeText(candidate.textContent || "").toLowerCase();
-    if (text === "errors" || text.startsWith("errors ")) {
-      return candidate;
+  const constantEntries = Object.entries(comparison.constant);
+  if (constantEntries.length) {
+    lines.push("Constant in every event:");
+    for (const [key, value] of constantEntries) {
+      lines.push(`- ${key}: ${truncateText(value, 160)}`);
     }
   }
-  return null;
-}
 
-function isTabActive(element: HTMLElement): boolean {
-  const ariaSelected = element.getAttribute("aria-selected");
-  if (ariaSelected === "true") {
-    return true;
+  const varyingEntries = Object.entries(comparison.varying);
+  if (varyingEntries.length) {
+    lines.push("Varies between events:");
+    for (const [key, values] of varyingEntries) {
+      const listed = values
+        .slice(0, 5)
+        .map(({ value, count }) => `${truncateText(value, 80)} ×${count}`)
+        .join(", ");
+      const more = values.length > 5 ? `, +${values.length - 5} more` : "";
+      lines.push(`- ${key}: ${listed}${more}`);
+    }
   }
-  const dataState = (element.getAttribute("data-state") || "").toLowerCase();
-  if (dataState === "active" || dataState === "selected") {
-    return true;
+
+  if (comparison.constantFrames.length || comparison.varyingFrames.length) {
+    lines.push(
+      `Frames: ${comparison.constantFrames.length} shared by every event, ${comparison.varyingFrames.length} only in some.`
+    );
+    for (const { frame, count } of comparison.varyingFrames.slice(0, 15)) {
+      lines.push(`- ${frame} — ${count}/${total} events`);
+    }
   }
-  const cls = (element.className || "").toLowerCase();
-  return cls.includes("active") || cls.includes("selected");
+
+  return lines.join("\n");
 }
 
-async function ensureReplayErrorsTabSelected(): Promise<void> {
-  const tab = getReplayErrorsTabElement();
-  if (!tab) {
-    return;
-  }
-  if (!isTabActive(tab)) {
-    tab.click();
-    await wait(350);
+function getPageText(): string {
+  const textParts: string[] = [];
+  const docs = getAccessibleDocuments();
+  for (const doc of docs) {
+    if (doc.body?.innerText) {
+      textParts.push(doc.body.innerText);
+    }
+    const shadowRoots = queryAllDeepInRoot<HTMLElement>(doc, "*")
+      .map((el) => (el as HTMLElement & { shadowRoot?: ShadowRoot | null }).shadowRoot)
+      .filter((root): root is ShadowRoot => Boolean(root));
+    for (const shadowRoot of shadowRoots) {
+      const shadowText = shadowRoot.textContent?.trim() || "";
+      if (shadowText) {
+        textParts.push(shadowText);
+      }
+    }
   }
+  return textParts.join("\n");
 }
 
-function getReplayErrorRows(): HTMLElement[] {
+function getIssueTitleFromDom(): string | null {
   const selectors = [
-    "table tbody tr",
-    "[role='rowgroup'] [role='row']",
-    "[role='grid'] [role='row']",
-    "[data-test-id*='errors'] tbody tr",
-    "[data-testid*='errors'] tbody tr",
-    "[data-test-id*='errors'] [role='row']",
-    "[data-testid*='errors'] [role='row']",
-    "[data-test-id*='event'] [role='row']",
-    "[data-testid*='event'] [role='row']"
+    '[data-test-id="issue-title"]',
+    '[data-testid="issue-title"]',
+    '[data-test-id="issue-header"] h1',
+    "main h1",
+    "h1"
   ];
 
-  const rows: HTMLElement[] = [];
-  const seen = new Set<HTMLElement>();
   for (const selector of selectors) {
-    for (const row of queryAllEverywhere<HTMLElement>(selector)) {
-      if (seen.has(row)) {
-        continue;
-      }
-      seen.add(row);
-      rows.push(row);
+    const el = queryFirstEverywhere<HTMLElement>(selector);
+    const text = el?.textContent?.trim() || "";
+    if (text && text.length > 3) {
+      return text;
     }
   }
 
-  return rows.filter((row) => {
-    const text = normalizeText(row.innerText || "");
-    if (!text) {
-      return false;
-    }
-    const lower = text.toLowerCase();
-    if (
-      lower.includes("event id") &&
-      lower.includes("title") &&
-      lower.includes("issue") &&
-      lower.includes("timestamp")
-    ) {
-      return false;
-    }
-    return extractEventId(text) !== null || extractIssueKey(text) !== null;
-  });
+  const titleFromDocument = document.title
+    .replace(/\s+\|\s+Sentry.*$/i, "")
+    .replace(/\s+\|\s+Issue.*$/i, "")
+    .trim();
+  return titleFromDocument || null;
 }
 
-function findLikelyReplayRowContainer(element: HTMLElement): HTMLElement | null {
-  let current: HTMLElement | null = element;
-  for (let depth = 0; depth < 8 && current; depth += 1) {
-    if (current.matches("tr, [role='row']")) {
-      return current;
-    }
+function getEventIdFromDom(): string | null {
+  const pageText = getPageText();
+  const match = pageText.match(/\bEvent ID:\s*([a-zA-Z0-9]+)/i);
+  return match ? match[1] : null;
+}
 
-    const text = normalizeText(current.innerText || current.textContent || "");
-    const anchorCount = current.querySelectorAll("a").length;
-    if (text.length > 20 && text.length < 700 && anchorCount >= 2) {
-      return current;
-    }
+function isStackNoiseLine(line: string): boolean {
+  const normalized = line.trim().toLowerCase();
+  if (!normalized) {
+    return true;
+  }
 
-    current = current.parentElement;
+  const exactNoise = new Set([
+    "stack trace",
+    "most relevant",
+    "full stack trace",
+    "newest",
+    "display",
+    "unsymbolicated",
+    "raw stack trace",
+    "in app"
+  ]);
+
+  if (exactNoise.has(normalized)) {
+    return true;
   }
-  return null;
+
+  if (/^\d{1,2}:\d{2}\s*(am|pm)$/i.test(normalized)) {
+    return true;
+  }
+
+  return false;
 }
 
-function getReplayErrorRowsFromAnchors(): HTMLElement[] {
-  const anchors = queryAllEverywhere<HTMLAnchorElement>("a");
-  const eventAnchors = anchors.filter((anchor) => {
-    const text = normalizeText(anchor.textContent || "");
-    if (!extractEventId(text)) {
-      return false;
-    }
+function parseFrameFromPrettyLine(line: string): NormalizedFrame | null {
+  const match = line.match(
+    /^(.+?)\s+in\s+(.+?)\s+at line\s+(\d+)(?::(\d+))?(?:\s+within\s+(.+))?$/i
+  );
+  if (!match) {
+    return null;
+  }
 
-    const href = anchor.getAttribute("href") || anchor.href || "";
-    if (href && !/event|issue|replay/i.test(href)) {
-      return false;
-    }
+  const file = match[1].trim();
+  const functionName = match[2].trim();
+  const lineNo = match[3].trim();
+  const colNo = match[4]?.trim() || null;
+  const moduleName = match[5]?.trim() || null;
 
-    return true;
-  });
+  if (!file || !functionName || !lineNo) {
+    return null;
+  }
 
-  const rows: HTMLElement[] = [];
-  const seen = new Set<HTMLElement>();
-  for (const anchor of eventAnchors) {
-    const row = findLikelyReplayRowContainer(anchor);
-    if (!row || seen.has(row)) {
-      continue;
+  return { functionName, file, module: moduleName, lineNo, colNo, inApp: null };
+}
+
+function getDomFrameLocation(frame: NormalizedFrame): string {
+  const file = frame.file || "";
+  return frame.module ? `package:${frame.module}/${file}` : file;
+}
+
+function detectStackStyleFromFrames(frames: NormalizedFrame[]): StackStyle {
+  const votes: Record<StackStyle, number> = { v8: 0, python: 0, jvm: 0, dart: 0, generic: 0 };
+  for (const frame of frames) {
+    const file = frame.file || "";
+    if (/\.dart$/i.test(file) || /^(package|dart):/.test(file)) {
+      votes.dart += 1;
+    } else if (/\.py$/i.test(file)) {
+      votes.python += 1;
+    } else if (/\.(java|kt|scala|groovy)$/i.test(file) || /^(java|javax|kotlin|android|androidx|com|org|io|net)\.[\w$.]+$/.test(file)) {
+      votes.jvm += 1;
+    } else if (/\.(m?js|cjs|jsx|ts|tsx|vue|svelte)(\?.*)?$/i.test(file) || /^https?:\/\//.test(file)) {
+      votes.v8 += 1;
     }
-    seen.add(row);
-    rows.push(row);
   }
+  const [best, count] = (Object.entries(votes) as Array<[StackStyle, number]>).sort(
+    (a, b) => b[1] - a[1]
+  )[0];
+  return count > 0 ? best : "generic";
+}
 
-  return rows;
+function toJvmDomFrame(frame: NormalizedFrame): NormalizedFrame {
+  const file = frame.file || "";
+  if (/\.\w+$/.test(file) && !/^[\w$]+(\.[\w$]+){2,}$/.test(file)) {
+    return frame;
+  }
+  const className = file.split(".").pop() || file;
+  return { ...frame, module: file, file: `${className.split("$")[0]}.java` };
 }
 
-function parseReplayErrorRow(row: HTMLElement): Record<string, unknown> | null {
-  const cells = Array.from(row.querySelectorAll<HTMLElement>("td, [role='cell']"))
-    .map((cell) => normalizeText(cell.innerText || cell.textContent || ""))
-    .filter(Boolean);
+function getRawLineLocation(line: string): string {
+  const match = line.match(/\(([^()]+?)(?::\d+){1,2}\)\s*$/);
+  return match ? match[1] : line;
+}
 
-  let eventId: string | null = null;
-  let title: string | null = null;
-  let issue: string | null = null;
-  let timestamp: string | null = null;
+function markInAppFrames(lines: string[]): { lines: string[]; inAppIndexes: Set<number> } {
+  const kept: string[] = [];
+  const inAppIndexes = new Set<number>();
+  for (const line of lines) {
+    if (/^in app$/i.test(line)) {
+      if (kept.length) {
+        inAppIndexes.add(kept.length - 1);
+      }
+      continue;
+    }
+    if (!isStackNoiseLine(line)) {
+      kept.push(line);
+    }
+  }
+  return { lines: kept, inAppIndexes };
+}
 
-  if (cells.length >= 4) {
-    eventId = extractEventId(cells[0]) || cells[0] || null;
-    title = cells[1] || null;
-    issue = extractIssueKey(cells[2]) || cells[2] || null;
-    timestamp = extractTimestamp(cells[3]) || cells[3] || null;
-  } else {
-    const rowText = normalizeText(row.innerText || row.textContent || "");
-    const anchors = Array.from(row.querySelectorAll<HTMLAnchorElement>("a"))
-      .map((anchor) => normalizeText(anchor.textContent || ""))
-      .filter(Boolean);
+function toRawStacktraceFromSection(
+  sectionText: string,
+  settings: NizoSettings,
+  platformStyle: StackStyle | null = null
+): string | null {
+  const marked = markInAppFrames(sectionText.split("\n").map((line) => line.trim()));
+  const lines = marked.lines;
+  const hasInAppBadges = marked.inAppIndexes.size > 0;
 
-    eventId =
-      anchors.map((text) => extractEventId(text)).find((value): value is string => Boolean(value)) ||
-      extractEventId(rowText);
+  if (!lines.length) {
+    return null;
+  }
 
-    issue =
-      anchors.map((text) => extractIssueKey(text)).find((value): value is string => Boolean(value)) ||
-      extractIssueKey(rowText);
+  const alreadyRawStart = lines.findIndex((line) => /^#\d+\s+/.test(line));
+  if (alreadyRawStart >= 0) {
+    const head = lines.slice(0, alreadyRawStart).join(" ").trim();
+    const rawLines = lines.slice(alreadyRawStart);
+    if (!settings.collapseLibraryFrames) {
+      return [head, ...rawLines].filter(Boolean).join("\n");
+    }
+    const collapsed = collapseLibraryRuns(
+      rawLines.map((line, offset) => ({ line, index: alreadyRawStart + offset })),
+      ({ line, index }) =>
+        !/^#\d+\s+/.test(line) ||
+        (hasInAppBadges
+          ? marked.inAppIndexes.has(index)
+          : !isLibraryLocation(getRawLineLocation(line))),
+      ({ line }) => getLibraryName(getRawLineLocation(line)),
+      ({ line }) => line,
+      (summary) => `  ${summary}`
+    );
+    return [head, ...collapsed].filter(Boolean).join("\n");
+  }
 
-    timestamp = extractTimestamp(rowText);
+  const parsedFrames = lines
+    .map((line, index) => {
+      const frame = parseFrameFromPrettyLine(line);
+      if (frame && hasInAppBadges) {
+        frame.inApp = marked.inAppIndexes.has(index);
+      }
+      return frame;
+    })
+    .filter((frame): frame is NormalizedFrame => Boolean(frame));
 
-    title =
-      anchors.find((text) => {
-        return !extractEventId(text) && !extractIssueKey(text) && !extractTimestamp(text);
-      }) || rowText;
+  if (!parsedFrames.length) {
+    return lines.slice(0, 220).join("\n");
   }
 
-  if (!eventId && !title && !issue) {
-    return null;
+  const firstFrameLine = lines.findIndex((line) => parseFrameFromPrettyLine(line) !== null);
+  const beforeFrames = firstFrameLine > 0 ? lines.slice(0, firstFrameLine) : [];
+
+  let header = "";
+  if (beforeFrames.length >= 2 && !beforeFrames[0].includes(":")) {
+    header = `${beforeFrames[0]}: ${beforeFrames[1]}`;
+  } else if (beforeFrames.length >= 1) {
+    header = beforeFrames[0];
   }
 
-  return {
-    eventId: eventId || null,
-    title: title || null,
-    issue: issue || null,
-    timestamp: timestamp || null
-  };
+  const style = platformStyle ?? detectStackStyleFromFrames(parsedFrames);
+  const styledFrames =
+    style === "jvm" ? parsedFrames.map((frame) => toJvmDomFrame(frame)) : parsedFrames;
+  const rawFrames = settings.collapseLibraryFrames
+    ? collapseLibraryRuns(
+        styledFrames,
+        (frame) => frame.inApp ?? !isLibraryLocation(getDomFrameLocation(frame)),
+        (frame) => getLibraryName(getDomFrameLocation(frame)),
+        (frame, index) => formatFrame(frame, index, style),
+        (summary) => formatCollapsedFrames(summary, style)
+      )
+    : styledFrames.map((frame, index) => formatFrame(frame, index, style));
+  return [header, ...rawFrames].filter(Boolean).join("\n");
 }
 
-function parseReplayEventsFromPageText(): Array<Record<string, unknown>> {
+function extractStacktraceFromDom(
+  settings: NizoSettings,
+  platformStyle: StackStyle | null = null
+): string | null {
   const pageText = getPageText();
-  const headerMatch = pageText.match(
-    /\bEVENT ID\b[\s\S]{0,60}\bTITLE\b[\s\S]{0,60}\bISSUE\b[\s\S]{0,60}\bTIMESTAMP\b/i
-  );
-  if (!headerMatch || headerMatch.index === undefined) {
-    return [];
+  const startMatch = pageText.match(/\bStack Trace\b/i);
+  if (!startMatch || startMatch.index === undefined) {
+    return null;
   }
 
-  const section = pageText.slice(headerMatch.index);
+  const sectionText = pageText.slice(startMatch.index);
   const endMarkers = [
     /\bSession Replay\b/i,
     /\bBreadcrumbs\b/i,
-    /\bConsole\b/i,
-    /\bNetwork\b/i,
-    /\bTrace\b/i,
-    /\bTags\b/i
+    /\bTags\b/i,
+    /\bContexts\b/i,
+    /\bEvent Data\b/i,
+    /\bAdditional Data\b/i
   ];
 
-  let endIndex = section.length;
+  let endIndex = sectionText.length;
   for (const marker of endMarkers) {
-    const markerMatch = section.match(marker);
+    const markerMatch = sectionText.match(marker);
     if (
       markerMatch &&
       markerMatch.index !== undefined &&
-      markerMatch.index > 120 &&
+      markerMatch.index > 20 &&
       markerMatch.index < endIndex
     ) {
       endIndex = markerMatch.index;
     }
   }
 
-  const lines = section
-    .slice(0, endIndex)
-    .split("\n")
-    .map((line) => normalizeText(line))
-    .filter(Boolean)
-    .filter((line) => !/^event id$/i.test(line))
-    .filter((line) => !/^title$/i.test(line))
-    .filter((line) => !/^issue$/i.test(line))
-    .filter((line) => !/^timestamp$/i.test(line))
-    .filter((line) => !/^project:/i.test(line))
-    .filter((line) => !/^search errors$/i.test(line));
-
-  const blocks: string[] = [];
-  let current: string[] = [];
+  const rawSection = sectionText.slice(0, endIndex);
+  const normalized = toRawStacktraceFromSection(rawSection, settings, platformStyle);
+  if (!normalized || normalized.length < 30) {
+    return null;
+  }
 
-  const startsWithEventId = (line: string): boolean =>
-    /^[a-f0-9]{8,32}\b/i.test(line) || /^([a-f0-9]{8,32})\s+/i.test(line);
+  return normalized;
+}
 
-  for (const line of lines) {
-    if (startsWithEventId(line)) {
-      if (current.length) {
-        blocks.push(current.join(" "));
-      }
-      current = [line];
-    } else if (current.length) {
-      current.push(line);
-    }
-  }
-  if (current.length) {
-    blocks.push(current.join(" "));
+function parseReplayFromUrl(rawUrl: string): { replayId: string; replayUrl: string } | null {
+  if (!rawUrl) {
+    return null;
   }
 
-  const parsedRows: Array<Record<string, unknown>> = [];
-  for (const block of blocks) {
-    const eventId =
-      block.match(/^([a-f0-9]{8,32})\b/i)?.[1] ||
-      extractEventId(block);
-    const issue = extractIssueKey(block);
-    const timestampMatches = Array.from(block.matchAll(/\b\d{1,2}:\d{2}\b/g));
-    const timestamp =
-      timestampMatches.length > 0
-        ? timestampMatches[timestampMatches.length - 1][0]
-        : null;
+  try {
+    const parsed = new URL(rawUrl, window.location.origin);
+    const patterns = [
+      /^\/organizations\/[^/]+\/replays\/([^/?#]+)\/?$/i,
+      /^\/replays\/([^/?#]+)\/?$/i,
+      /^\/[^/]+\/replays\/([^/?#]+)\/?$/i
+    ];
 
-    if (!eventId) {
-      continue;
+    for (const pattern of patterns) {
+      const match = parsed.pathname.match(pattern);
+      if (match && match[1]) {
+        return {
+          replayId: decodeSafe(match[1]),
+          replayUrl: parsed.toString()
+        };
+      }
     }
+  } catch {
+    return null;
+  }
 
-    let title = block.replace(new RegExp(`^${eventId}\\s*`, "i"), "");
-    if (issue) {
-      title = title.replace(issue, "");
-    }
-    if (timestamp) {
-      title = title.replace(new RegExp(`${timestamp}\\s*$`), "");
+  return null;
+}
+
+function getReplayCtaElements(): HTMLElement[] {
+  const ctaPhrases = ["see full replay", "see all replays", "open replay", "view replay"];
+  return queryAllEverywhere<HTMLElement>(
+    "button, [role='button'], a, [data-href], [data-url]"
+  ).filter((el) => {
+    const text = (el.textContent || "").trim().toLowerCase();
+    return ctaPhrases.some((phrase) => text.includes(phrase));
+  });
+}
+
+function readReplayUrlFromElement(element: Element): string | null {
+  const attrs = ["href", "data-href", "data-url", "data-to"];
+  for (const attr of attrs) {
+    const value = element.getAttribute(attr);
+    if (value && value.includes("/replays/")) {
+      return value;
     }
-    title = normalizeText(title);
+  }
 
-    parsedRows.push({
-      eventId,
-      title: title || null,
-      issue: issue || null,
-      timestamp: timestamp || null
-    });
+  if (element instanceof HTMLAnchorElement && element.href.includes("/replays/")) {
+    return element.href;
   }
 
-  const unique = new Map<string, Record<string, unknown>>();
-  for (const row of parsedRows) {
-    const key = [
-      String(row.eventId || ""),
-      String(row.title || ""),
-      String(row.issue || ""),
-      String(row.timestamp || "")
-    ].join("|");
-    unique.set(key, row);
+  const onClick = element.getAttribute("onclick");
+  if (onClick) {
+    const match = onClick.match(/['"]([^'"]*\/replays\/[^'"]+)['"]/i);
+    if (match && match[1]) {
+      return match[1];
+    }
   }
 
-  return Array.from(unique.values());
+  return null;
 }
 
-function toAbsoluteUrl(href: string, origin: string): string | null {
-  if (!href) {
-    return null;
-  }
-  try {
-    return new URL(href, origin).toString();
-  } catch {
-    return null;
-  }
-}
+function extractReplayFromDom(): ReplayResolution | null {
+  const ctaPhrases = ["see full replay", "see all replays", "open replay", "view replay"];
 
-function collectReplayLinkMaps(ctx: PageContext): {
-  eventLinks: Record<string, string>;
-  issueLinks: Record<string, string>;
-} {
-  const eventLinks: Record<string, string> = {};
-  const issueLinks: Record<string, string> = {};
+  const allAnchors = queryAllEverywhere<HTMLAnchorElement>("a[href]");
+  const prioritizedAnchors = allAnchors
+    .filter((anchor) => {
+      const text = (anchor.textContent || "").trim().toLowerCase();
+      return ctaPhrases.some((phrase) => text.includes(phrase));
+    })
+    .concat(allAnchors.filter((anchor) => anchor.href.includes("/replays/")));
 
-  const anchors = queryAllEverywhere<HTMLAnchorElement>("a[href]");
-  for (const anchor of anchors) {
-    const text = normalizeText(anchor.textContent || "");
-    if (!text) {
-      continue;
+  for (const anchor of prioritizedAnchors) {
+    const parsed = parseReplayFromUrl(anchor.href);
+    if (parsed) {
+      return {
+        replayId: parsed.replayId,
+        replayUrl: parsed.replayUrl,
+        source: "dom"
+      };
     }
+  }
 
-    const href = toAbsoluteUrl(anchor.getAttribute("href") || anchor.href, ctx.origin);
-    if (!href) {
-      continue;
-    }
+  const ctaElements = getReplayCtaElements();
 
-    const eventId = extractEventId(text);
-    if (eventId && !eventLinks[eventId]) {
-      eventLinks[eventId] = href;
+  for (const element of ctaElements) {
+    const ownUrl = readReplayUrlFromElement(element);
+    if (ownUrl) {
+      const parsed = parseReplayFromUrl(ownUrl);
+      if (parsed) {
+        return {
+          replayId: parsed.replayId,
+          replayUrl: parsed.replayUrl,
+          source: "dom"
+        };
+      }
     }
 
-    const issueKey = extractIssueKey(text);
-    if (issueKey && !issueLinks[issueKey]) {
-      issueLinks[issueKey] = href;
+    const closestAnchor = element.closest("a[href]");
+    if (closestAnchor) {
+      const parsed = parseReplayFromUrl((closestAnchor as HTMLAnchorElement).href);
+      if (parsed) {
+        return {
+          replayId: parsed.replayId,
+          replayUrl: parsed.replayUrl,
+          source: "dom"
+        };
+      }
     }
   }
 
-  return { eventLinks, issueLinks };
+  return null;
 }
 
-function extractReplayErrorCountFromDom(): number | null {
-  const tab = getReplayErrorsTabElement();
-  const tabText = tab ? normalizeText(tab.textContent || "") : "";
-  if (tabText) {
-    const tabMatch = tabText.match(/errors?\s*\(?\s*(\d+)\s*\)?/i);
-    if (tabMatch) {
-      return Number(tabMatch[1]);
-    }
-  }
-
-  const pageText = getPageText();
-  const pageMatch = pageText.match(/\b(\d+)\s+errors\b/i);
-  if (pageMatch) {
-    return Number(pageMatch[1]);
-  }
-  return null;
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-async function getReplayErrorEventsFromDomWithRetry(): Promise<Array<Record<string, unknown>>> {
-  await ensureReplayErrorsTabSelected();
+async function extractReplayByClickingCta(): Promise<ReplayResolution | null> {
+  const ctaElements = getReplayCtaElements();
+  if (!ctaElements.length) {
+    return null;
+  }
 
-  for (let attempt = 0; attempt < 12; attempt += 1) {
-    const rowCandidates = getReplayErrorRows();
-    const anchorRowCandidates = getReplayErrorRowsFromAnchors();
+  const beforeUrl = window.location.href;
+  ctaElements[0].click();
 
-    const parsedFromRows = rowCandidates
-      .map((row) => parseReplayErrorRow(row))
-      .filter((row): row is Record<string, unknown> => Boolean(row));
-    const parsedFromAnchorRows = anchorRowCandidates
-      .map((row) => parseReplayErrorRow(row))
-      .filter((row): row is Record<string, unknown> => Boolean(row));
-    const parsedFromText = parseReplayEventsFromPageText();
+  for (let attempt = 0; attempt < 10; attempt += 1) {
+    await wait(200);
 
-    const parsed = [...parsedFromRows, ...parsedFromAnchorRows, ...parsedFromText];
+    const replayFromDom = extractReplayFromDom();
+    if (replayFromDom) {
+      return {
+        ...replayFromDom,
+        source: "dom-click"
+      };
+    }
 
-    if (parsed.length > 0) {
-      const unique = new Map<string, Record<string, unknown>>();
-      for (const row of parsed) {
-        const key = [
-          String(row.eventId || ""),
-          String(row.title || ""),
-          String(row.issue || ""),
-          String(row.timestamp || "")
-        ].join("|");
-        unique.set(key, row);
+    const replayFromLocation = parseReplayFromUrl(window.location.href);
+    if (replayFromLocation) {
+      if (window.location.href !== beforeUrl && window.history.length > 1) {
+        window.history.back();
       }
-      return Array.from(unique.values());
+      return {
+        replayId: replayFromLocation.replayId,
+        replayUrl: replayFromLocation.replayUrl,
+        source: "dom-click"
+      };
     }
-
-    await wait(250);
   }
 
-  return [];
+  return null;
 }
 
-function getReplayNetworkTabElement(): HTMLElement | null {
-  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
-  for (const candidate of candidates) {
-    const text = normalizeText(candidate.textContent || "").toLowerCase();
-    if (text === "network" || text.startsWith("network ")) {
-      return candidate;
+async function extractReplayFromDomWithRetry(): Promise<ReplayResolution | null> {
+  for (let attempt = 0; attempt < 8; attempt += 1) {
+    const replay = extractReplayFromDom();
+    if (replay) {
+      return replay;
     }
+    await wait(250);
   }
   return null;
 }
 
-async function ensureReplayNetworkTabSelected(): Promise<void> {
-  const tab = getReplayNetworkTabElement();
-  if (!tab) {
-    return;
+async function resolveReplay(
+  ctx: PageContext,
+  selectedReplayId?: string,
+  apiOnly = false
+): Promise<ReplayResolution> {
+  if (ctx.replayId) {
+    const organizationSlug = ctx.organizationSlug;
+    return {
+      replayId: ctx.replayId,
+      replayUrl: organizationSlug
+        ? `${ctx.origin}/organizations/${organizationSlug}/replays/${ctx.replayId}/`
+        : window.location.href,
+      source: "url"
+    };
   }
-  if (!isTabActive(tab)) {
-    tab.click();
-    await wait(400);
+
+  if (selectedReplayId && ctx.organizationSlug) {
+    return {
+      replayId: selectedReplayId,
+      replayUrl: `${ctx.origin}/organizations/${ctx.organizationSlug}/replays/${selectedReplayId}/`,
+      source: "selected"
+    };
+  }
+
+  if (!apiOnly) {
+    const domReplay = await extractReplayFromDomWithRetry();
+    if (domReplay) {
+      return domReplay;
+    }
+
+    const clickedReplay = await extractReplayByClickingCta();
+    if (clickedReplay) {
+      return clickedReplay;
+    }
+  }
+
+  const organizationSlug = ctx.organizationSlug ? assertOrganization(ctx) : null;
+  if (!ctx.issueId) {
+    throw new Error("No replay found on this page. Enter a replay ID under Target replay.");
+  }
+  if (!organizationSlug) {
+    throw new Error("No replay link found in DOM for this issue.");
+  }
+
+  const replayRows = toRows(
+    await sentryGet<unknown>(ctx, `/api/0/organizations/${organizationSlug}/replays/`, {
+      query: `issue.id:${ctx.issueId}`,
+      statsPeriod: (await loadSettings()).replayLookback,
+      per_page: 1,
+      sort: "-started_at",
+      field: ["id", "count_errors", "error_ids"]
+    })
+  );
+
+  const first = replayRows[0];
+  const replayId = typeof first?.id === "string" ? first.id : null;
+  if (!replayId) {
+    throw new Error("No replay is attached to this issue.");
   }
+
+  return {
+    replayId,
+    replayUrl: `${ctx.origin}/organizations/${organizationSlug}/replays/${replayId}/`,
+    source: "api"
+  };
 }
 
-function extractHttpMethod(text: string): string | null {
-  const match = text.match(/\b(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD)\b/i);
-  return match ? match[1].toUpperCase() : null;
+function tagsToRecord(tags: SentryEvent["tags"]): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const tag of tags || []) {
+    if (tag.key && tag.value) {
+      result[tag.key] = tag.value;
+    }
+  }
+  return result;
 }
 
-function extractStatusCode(text: string): number | null {
-  const match = text.match(/\b([1-5]\d{2})\b/);
-  return match ? Number(match[1]) : null;
+async function getReplayErrorEvents(
+  ctx: PageContext,
+  replayId: string
+): Promise<Array<Record<string, unknown>>> {
+  const organizationSlug = assertOrganization(ctx);
+  try {
+    return toRows(
+      await sentryGet<unknown>(ctx, `/api/0/organizations/${organizationSlug}/events/`, {
+        query: `replay_id:${replayId}`,
+        field: ["title", "issue", "project", "timestamp", "id"],
+        sort: "-timestamp",
+        per_page: 20,
+        statsPeriod: "14d"
+      })
+    );
+  } catch {
+    return [];
+  }
 }
 
-function extractDuration(text: string): string | null {
-  const matches = Array.from(text.matchAll(/\b\d+(?:\.\d+)?\s?(?:ms|s)\b/gi));
-  if (!matches.length) {
-    return null;
+async function resolveReplayErrorEvent(
+  ctx: PageContext,
+  organizationSlug: string,
+  eventId: string,
+  issueCache: Map<string, Promise<SentryIssue | null>>
+): Promise<Record<string, unknown>> {
+  const lookup = await sentryGet<SentryEventIdLookup>(
+    ctx,
+    `/api/0/organizations/${organizationSlug}/eventids/${eventId}/`
+  );
+  const event = lookup.event || {};
+  const groupId = toStringValue(lookup.groupId) || toStringValue(event.groupID);
+
+  let issue: SentryIssue | null = null;
+  if (groupId) {
+    if (!issueCache.has(groupId)) {
+      issueCache.set(
+        groupId,
+        sentryGet<SentryIssue>(
+          ctx,
+          `/api/0/organizations/${organizationSlug}/issues/${groupId}/`
+        ).catch(() => null)
+      );
+    }
+    issue = (await issueCache.get(groupId)) || null;
   }
-  return matches[matches.length - 1][0];
+
+  const tags = tagsToRecord(event.tags);
+  const issueUrl = groupId ? `${ctx.origin}/organizations/${organizationSlug}/issues/${groupId}/` : null;
+  return {
+    eventId,
+    title: event.title || issue?.title || null,
+    issue: issue?.shortId || null,
+    level: tags.level || issue?.level || null,
+    culprit: event.culprit || issue?.culprit || null,
+    project: lookup.projectSlug || null,
+    timestamp: event.dateCreated || event.dateReceived || null,
+    eventUrl: issueUrl ? `${issueUrl}events/${eventId}/` : null,
+    issueUrl
+  };
 }
 
-function extractHost(text: string): string | null {
-  const match = text.match(/\b([a-z0-9-]+(?:\.[a-z0-9-]+)+)\b/i);
-  return match ? match[1] : null;
+async function getReplayErrorEventsFromIds(
+  ctx: PageContext,
+  organizationSlug: string,
+  errorIds: string[]
+): Promise<{ events: Array<Record<string, unknown>>; failedEventIds: string[]; truncated: boolean }> {
+  const ids = errorIds.slice(0, MAX_REPLAY_ERROR_LOOKUPS);
+  const issueCache = new Map<string, Promise<SentryIssue | null>>();
+  const events: Array<Record<string, unknown>> = [];
+  const failedEventIds: string[] = [];
+
+  for (let index = 0; index < ids.length; index += 5) {
+    const batch = ids.slice(index, index + 5);
+    const results = await Promise.all(
+      batch.map((eventId) =>
+        resolveReplayErrorEvent(ctx, organizationSlug, eventId, issueCache).catch(() => null)
+      )
+    );
+    results.forEach((result, offset) => {
+      if (result) {
+        events.push(result);
+      } else {
+        failedEventIds.push(batch[offset]);
+      }
+    });
+  }
+
+  return { events, failedEventIds, truncated: errorIds.length > ids.length };
 }
 
-function getReplayNetworkRows(): HTMLElement[] {
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function extractEventId(text: string): string | null {
+  const match = text.match(/\b[a-f0-9]{8,32}\b/i);
+  return match ? match[0] : null;
+}
+
+function extractIssueKey(text: string): string | null {
+  const match = text.match(/\b[A-Z][A-Z0-9_-]+-[A-Z0-9]{2,}\b/);
+  return match ? match[0] : null;
+}
+
+function extractTimestamp(text: string): string | null {
+  const match = text.match(/\b\d{1,2}:\d{2}(?::\d{2})?(?:\.\d{1,3})?(?:\s?[AP]M\b)?/i);
+  return match ? match[0] : null;
+}
+
+function isReplayOffsetText(text: string): boolean {
+  return /^(?:\d{1,2}:)?\d{1,2}:\d{2}$/.test(text);
+}
+
+function getReplayOffsetCellText(row: HTMLElement): string | null {
+  const cells = row.querySelectorAll<HTMLElement>(
+    "td, [role='cell'], [role='gridcell'], time, button, span"
+  );
+  for (const cell of Array.from(cells)) {
+    const text = normalizeText(cell.innerText || cell.textContent || "");
+    if (isReplayOffsetText(text)) {
+      return text;
+    }
+  }
+  return null;
+}
+
+function getReplayErrorsTabElement(): HTMLElement | null {
+  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
+  for (const candidate of candidates) {
+    const text = normalizeText(candidate.textContent || "").toLowerCase();
+    if (text === "errors" || text.startsWith("errors ")) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function isTabActive(element: HTMLElement): boolean {
+  const ariaSelected = element.getAttribute("aria-selected");
+  if (ariaSelected === "true") {
+    return true;
+  }
+  const dataState = (element.getAttribute("data-state") || "").toLowerCase();
+  if (dataState === "active" || dataState === "selected") {
+    return true;
+  }
+  const cls = (element.className || "").toLowerCase();
+  return cls.includes("active") || cls.includes("selected");
+}
+
+async function ensureReplayErrorsTabSelected(): Promise<void> {
+  const tab = getReplayErrorsTabElement();
+  if (!tab) {
+    return;
+  }
+  if (!isTabActive(tab)) {
+    tab.click();
+    await wait(350);
+  }
+}
+
+function getReplayErrorRows(): HTMLElement[] {
   const selectors = [
     "table tbody tr",
     "[role='rowgroup'] [role='row']",
     "[role='grid'] [role='row']",
-    "[data-test-id*='network'] tbody tr",
-    "[data-testid*='network'] tbody tr",
-    "[data-test-id*='network'] [role='row']",
-    "[data-testid*='network'] [role='row']"
+    "[data-test-id*='errors'] tbody tr",
+    "[data-testid*='errors'] tbody tr",
+    "[data-test-id*='errors'] [role='row']",
+    "[data-testid*='errors'] [role='row']",
+    "[data-test-id*='event'] [role='row']",
+    "[data-testid*='event'] [role='row']"
   ];
 
   const rows: HTMLElement[] = [];
@@ -1323,528 +2593,2949 @@ function getReplayNetworkRows(): HTMLElement[] {
   }
 
   return rows.filter((row) => {
-    const text = normalizeText(row.innerText || row.textContent || "");
+    const text = normalizeText(row.innerText || "");
     if (!text) {
       return false;
     }
     const lower = text.toLowerCase();
     if (
-      lower.includes("method") &&
-      lower.includes("host") &&
-      lower.includes("status")
+      lower.includes("event id") &&
+      lower.includes("title") &&
+      lower.includes("issue") &&
+      lower.includes("timestamp")
     ) {
       return false;
     }
-    return (
-      extractHttpMethod(text) !== null ||
-      extractStatusCode(text) !== null ||
-      extractHost(text) !== null
-    );
+    return extractEventId(text) !== null || extractIssueKey(text) !== null;
   });
 }
 
-function parseReplayNetworkRow(row: HTMLElement): Record<string, unknown> | null {
-  const rowText = normalizeText(row.innerText || row.textContent || "");
-  if (!rowText) {
-    return null;
+function findLikelyReplayRowContainer(element: HTMLElement): HTMLElement | null {
+  let current: HTMLElement | null = element;
+  for (let depth = 0; depth < 8 && current; depth += 1) {
+    if (current.matches("tr, [role='row']")) {
+      return current;
+    }
+
+    const text = normalizeText(current.innerText || current.textContent || "");
+    const anchorCount = current.querySelectorAll("a").length;
+    if (text.length > 20 && text.length < 700 && anchorCount >= 2) {
+      return current;
+    }
+
+    current = current.parentElement;
+  }
+  return null;
+}
+
+function getReplayErrorRowsFromAnchors(): HTMLElement[] {
+  const anchors = queryAllEverywhere<HTMLAnchorElement>("a");
+  const eventAnchors = anchors.filter((anchor) => {
+    const text = normalizeText(anchor.textContent || "");
+    if (!extractEventId(text)) {
+      return false;
+    }
+
+    const href = anchor.getAttribute("href") || anchor.href || "";
+    if (href && !/event|issue|replay/i.test(href)) {
+      return false;
+    }
+
+    return true;
+  });
+
+  const rows: HTMLElement[] = [];
+  const seen = new Set<HTMLElement>();
+  for (const anchor of eventAnchors) {
+    const row = findLikelyReplayRowContainer(anchor);
+    if (!row || seen.has(row)) {
+      continue;
+    }
+    seen.add(row);
+    rows.push(row);
   }
 
+  return rows;
+}
+
+function parseReplayErrorRow(row: HTMLElement): Record<string, unknown> | null {
   const cells = Array.from(row.querySelectorAll<HTMLElement>("td, [role='cell']"))
     .map((cell) => normalizeText(cell.innerText || cell.textContent || ""))
     .filter(Boolean);
 
-  const anchor = row.querySelector<HTMLAnchorElement>("a[href]");
-  const detailsUrl = anchor
-    ? toAbsoluteUrl(anchor.getAttribute("href") || anchor.href, window.location.origin)
-    : null;
+  let eventId: string | null = null;
+  let title: string | null = null;
+  let issue: string | null = null;
+  let timestamp: string | null = null;
+  let offsetText: string | null = null;
 
-  const rawUrlMatch = rowText.match(/https?:\/\/[^\s]+/i);
-  const requestUrl = rawUrlMatch ? rawUrlMatch[0] : null;
+  if (cells.length >= 4) {
+    eventId = extractEventId(cells[0]) || cells[0] || null;
+    title = cells[1] || null;
+    issue = extractIssueKey(cells[2]) || cells[2] || null;
+    timestamp = extractTimestamp(cells[3]) || cells[3] || null;
+    offsetText = isReplayOffsetText(cells[3]) ? cells[3] : null;
+  } else {
+    const rowText = normalizeText(row.innerText || row.textContent || "");
+    const anchors = Array.from(row.querySelectorAll<HTMLAnchorElement>("a"))
+      .map((anchor) => normalizeText(anchor.textContent || ""))
+      .filter(Boolean);
 
-  const method = extractHttpMethod(cells.join(" ")) || extractHttpMethod(rowText);
+    eventId =
+      anchors.map((text) => extractEventId(text)).find((value): value is string => Boolean(value)) ||
+      extractEventId(rowText);
+
+    issue =
+      anchors.map((text) => extractIssueKey(text)).find((value): value is string => Boolean(value)) ||
+      extractIssueKey(rowText);
+
+    timestamp = extractTimestamp(rowText);
+    offsetText = getReplayOffsetCellText(row);
+
+    title =
+      anchors.find((text) => {
+        return !extractEventId(text) && !extractIssueKey(text) && !extractTimestamp(text);
+      }) || rowText;
+  }
+
+  if (!eventId && !title && !issue) {
+    return null;
+  }
+
+  return {
+    eventId: eventId || null,
+    title: title || null,
+    issue: issue || null,
+    timestamp: timestamp || null,
+    offsetText
+  };
+}
+
+function parseReplayEventsFromPageText(): Array<Record<string, unknown>> {
+  const pageText = getPageText();
+  const headerMatch = pageText.match(
+    /\bEVENT ID\b[\s\S]{0,60}\bTITLE\b[\s\S]{0,60}\bISSUE\b[\s\S]{0,60}\bTIMESTAMP\b/i
+  );
+  if (!headerMatch || headerMatch.index === undefined) {
+    return [];
+  }
+
+  const section = pageText.slice(headerMatch.index);
+  const endMarkers = [
+    /\bSession Replay\b/i,
+    /\bBreadcrumbs\b/i,
+    /\bConsole\b/i,
+    /\bNetwork\b/i,
+    /\bTrace\b/i,
+    /\bTags\b/i
+  ];
+
+  let endIndex = section.length;
+  for (const marker of endMarkers) {
+    const markerMatch = section.match(marker);
+    if (
+      markerMatch &&
+      markerMatch.index !== undefined &&
+      markerMatch.index > 120 &&
+      markerMatch.index < endIndex
+    ) {
+      endIndex = markerMatch.index;
+    }
+  }
+
+  const lines = section
+    .slice(0, endIndex)
+    .split("\n")
+    .map((line) => normalizeText(line))
+    .filter(Boolean)
+    .filter((line) => !/^event id$/i.test(line))
+    .filter((line) => !/^title$/i.test(line))
+    .filter((line) => !/^issue$/i.test(line))
+    .filter((line) => !/^timestamp$/i.test(line))
+    .filter((line) => !/^project:/i.test(line))
+    .filter((line) => !/^search errors$/i.test(line));
+
+  const blocks: string[] = [];
+  let current: string[] = [];
+
+  const startsWithEventId = (line: string): boolean =>
+    /^[a-f0-9]{8,32}\b/i.test(line) || /^([a-f0-9]{8,32})\s+/i.test(line);
+
+  for (const line of lines) {
+    if (startsWithEventId(line)) {
+      if (current.length) {
+        blocks.push(current.join(" "));
+      }
+      current = [line];
+    } else if (current.length) {
+      current.push(line);
+    }
+  }
+  if (current.length) {
+    blocks.push(current.join(" "));
+  }
+
+  const parsedRows: Array<Record<string, unknown>> = [];
+  for (const block of blocks) {
+    const eventId =
+      block.match(/^([a-f0-9]{8,32})\b/i)?.[1] ||
+      extractEventId(block);
+    const issue = extractIssueKey(block);
+    const timestampMatches = Array.from(block.matchAll(/\b\d{1,2}:\d{2}\b/g));
+    const timestamp =
+      timestampMatches.length > 0
+        ? timestampMatches[timestampMatches.length - 1][0]
+        : null;
+
+    if (!eventId) {
+      continue;
+    }
+
+    let title = block.replace(new RegExp(`^${eventId}\\s*`, "i"), "");
+    if (issue) {
+      title = title.replace(issue, "");
+    }
+    if (timestamp) {
+      title = title.replace(new RegExp(`${timestamp}\\s*$`), "");
+    }
+    title = normalizeText(title);
+
+    parsedRows.push({
+      eventId,
+      title: title || null,
+      issue: issue || null,
+      timestamp: timestamp || null
+    });
+  }
+
+  const unique = new Map<string, Record<string, unknown>>();
+  for (const row of parsedRows) {
+    const key = [
+      String(row.eventId || ""),
+      String(row.title || ""),
+      String(row.issue || ""),
+      String(row.timestamp || "")
+    ].join("|");
+    unique.set(key, row);
+  }
+
+  return Array.from(unique.values());
+}
+
+function toAbsoluteUrl(href: string, origin: string): string | null {
+  if (!href) {
+    return null;
+  }
+  try {
+    return new URL(href, origin).toString();
+  } catch {
+    return null;
+  }
+}
+
+function collectReplayLinkMaps(ctx: PageContext): {
+  eventLinks: Record<string, string>;
+  issueLinks: Record<string, string>;
+} {
+  const eventLinks: Record<string, string> = {};
+  const issueLinks: Record<string, string> = {};
+
+  const anchors = queryAllEverywhere<HTMLAnchorElement>("a[href]");
+  for (const anchor of anchors) {
+    const text = normalizeText(anchor.textContent || "");
+    if (!text) {
+      continue;
+    }
+
+    const href = toAbsoluteUrl(anchor.getAttribute("href") || anchor.href, ctx.origin);
+    if (!href) {
+      continue;
+    }
+
+    const eventId = extractEventId(text);
+    if (eventId && !eventLinks[eventId]) {
+      eventLinks[eventId] = href;
+    }
+
+    const issueKey = extractIssueKey(text);
+    if (issueKey && !issueLinks[issueKey]) {
+      issueLinks[issueKey] = href;
+    }
+  }
+
+  return { eventLinks, issueLinks };
+}
+
+function extractReplayErrorCountFromDom(): number | null {
+  const tab = getReplayErrorsTabElement();
+  const tabText = tab ? normalizeText(tab.textContent || "") : "";
+  if (tabText) {
+    const tabMatch = tabText.match(/errors?\s*\(?\s*(\d+)\s*\)?/i);
+    if (tabMatch) {
+      return Number(tabMatch[1]);
+    }
+  }
+
+  const pageText = getPageText();
+  const pageMatch = pageText.match(/\b(\d+)\s+errors\b/i);
+  if (pageMatch) {
+    return Number(pageMatch[1]);
+  }
+  return null;
+}
+
+async function getReplayErrorEventsFromDomWithRetry(): Promise<Array<Record<string, unknown>>> {
+  await ensureReplayErrorsTabSelected();
+
+  for (let attempt = 0; attempt < 12; attempt += 1) {
+    const rowCandidates = getReplayErrorRows();
+    const anchorRowCandidates = getReplayErrorRowsFromAnchors();
+
+    const parsedFromRows = rowCandidates
+      .map((row) => parseReplayErrorRow(row))
+      .filter((row): row is Record<string, unknown> => Boolean(row));
+    const parsedFromAnchorRows = anchorRowCandidates
+      .map((row) => parseReplayErrorRow(row))
+      .filter((row): row is Record<string, unknown> => Boolean(row));
+    const parsedFromText = parseReplayEventsFromPageText();
+
+    const parsed = [...parsedFromRows, ...parsedFromAnchorRows, ...parsedFromText];
+
+    if (parsed.length > 0) {
+      const unique = new Map<string, Record<string, unknown>>();
+      for (const row of parsed) {
+        const key = [
+          String(row.eventId || ""),
+          String(row.title || ""),
+          String(row.issue || ""),
+          String(row.timestamp || "")
+        ].join("|");
+        unique.set(key, row);
+      }
+      return Array.from(unique.values());
+    }
+
+    await wait(250);
+  }
+
+  return [];
+}
+
+function getReplayNetworkTabElement(): HTMLElement | null {
+  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
+  for (const candidate of candidates) {
+    const text = normalizeText(candidate.textContent || "").toLowerCase();
+    if (text === "network" || text.startsWith("network ")) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+async function ensureReplayNetworkTabSelected(): Promise<void> {
+  const tab = getReplayNetworkTabElement();
+  if (!tab) {
+    return;
+  }
+  if (!isTabActive(tab)) {
+    tab.click();
+    await wait(400);
+  }
+}
+
+function extractHttpMethod(text: string): string | null {
+  const match = text.match(/\b(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD)\b/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+function extractStatusCode(text: string): number | null {
+  const match = text.match(/\b([1-5]\d{2})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+function extractDuration(text: string): string | null {
+  const matches = Array.from(text.matchAll(/\b\d+(?:\.\d+)?\s?(?:ms|s)\b/gi));
+  if (!matches.length) {
+    return null;
+  }
+  return matches[matches.length - 1][0];
+}
+
+function extractHost(text: string): string | null {
+  const match = text.match(/\b([a-z0-9-]+(?:\.[a-z0-9-]+)+)\b/i);
+  return match ? match[1] : null;
+}
+
+function getReplayNetworkRows(): HTMLElement[] {
+  const selectors = [
+    "table tbody tr",
+    "[role='rowgroup'] [role='row']",
+    "[role='grid'] [role='row']",
+    "[data-test-id*='network'] tbody tr",
+    "[data-testid*='network'] tbody tr",
+    "[data-test-id*='network'] [role='row']",
+    "[data-testid*='network'] [role='row']"
+  ];
+
+  const rows: HTMLElement[] = [];
+  const seen = new Set<HTMLElement>();
+  for (const selector of selectors) {
+    for (const row of queryAllEverywhere<HTMLElement>(selector)) {
+      if (seen.has(row)) {
+        continue;
+      }
+      seen.add(row);
+      rows.push(row);
+    }
+  }
+
+  return rows.filter((row) => {
+    const text = normalizeText(row.innerText || row.textContent || "");
+    if (!text) {
+      return false;
+    }
+    const lower = text.toLowerCase();
+    if (
+      lower.includes("method") &&
+      lower.includes("host") &&
+      lower.includes("status")
+    ) {
+      return false;
+    }
+    return (
+      extractHttpMethod(text) !== null ||
+      extractStatusCode(text) !== null ||
+      extractHost(text) !== null
+    );
+  });
+}
+
+function parseReplayNetworkRow(row: HTMLElement): Record<string, unknown> | null {
+  const rowText = normalizeText(row.innerText || row.textContent || "");
+  if (!rowText) {
+    return null;
+  }
+
+  const cells = Array.from(row.querySelectorAll<HTMLElement>("td, [role='cell']"))
+    .map((cell) => normalizeText(cell.innerText || cell.textContent || ""))
+    .filter(Boolean);
+
+  const anchor = row.querySelector<HTMLAnchorElement>("a[href]");
+  const detailsUrl = anchor
+    ? toAbsoluteUrl(anchor.getAttribute("href") || anchor.href, window.location.origin)
+    : null;
+
+  const rawUrlMatch = rowText.match(/https?:\/\/[^\s]+/i);
+  const requestUrl = rawUrlMatch ? rawUrlMatch[0] : null;
+
+  const method = extractHttpMethod(cells.join(" ")) || extractHttpMethod(rowText);
   const status = extractStatusCode(cells.join(" ")) || extractStatusCode(rowText);
   const duration = extractDuration(cells.join(" ")) || extractDuration(rowText);
   const timestamp = extractTimestamp(cells.join(" ")) || extractTimestamp(rowText);
   const host =
-    extractHost(cells.join(" ")) ||
-    (requestUrl ? (() => {
-      try {
-        return new URL(requestUrl).hostname;
-      } catch {
-        return null;
+    extractHost(cells.join(" ")) ||
+    (requestUrl ? (() => {
+      try {
+        return new URL(requestUrl).hostname;
+      } catch {
+        return null;
+      }
+    })() : null) ||
+    extractHost(rowText);
+
+  if (!method && !status && !host && !requestUrl) {
+    return null;
+  }
+
+  return {
+    method: method || null,
+    status: status ?? null,
+    host: host || null,
+    requestUrl: requestUrl || null,
+    duration: duration || null,
+    timestamp: timestamp || null,
+    offsetText: getReplayOffsetCellText(row),
+    detailsUrl,
+    title: rowText
+  };
+}
+
+function parseReplayNetworkEventsFromPageText(): Array<Record<string, unknown>> {
+  const pageText = getPageText();
+  const lines = pageText
+    .split("\n")
+    .map((line) => normalizeText(line))
+    .filter(Boolean);
+
+  const parsed: Array<Record<string, unknown>> = [];
+  for (const line of lines) {
+    if (!extractHttpMethod(line)) {
+      continue;
+    }
+    if (!extractStatusCode(line) && !extractHost(line)) {
+      continue;
+    }
+
+    const rawUrlMatch = line.match(/https?:\/\/[^\s]+/i);
+    const method = extractHttpMethod(line);
+    const status = extractStatusCode(line);
+    const duration = extractDuration(line);
+    const timestamp = extractTimestamp(line);
+    const host =
+      extractHost(line) ||
+      (rawUrlMatch ? (() => {
+        try {
+          return new URL(rawUrlMatch[0]).hostname;
+        } catch {
+          return null;
+        }
+      })() : null);
+
+    parsed.push({
+      method: method || null,
+      status: status ?? null,
+      host: host || null,
+      requestUrl: rawUrlMatch ? rawUrlMatch[0] : null,
+      duration: duration || null,
+      timestamp: timestamp || null,
+      detailsUrl: null,
+      title: line
+    });
+  }
+
+  if (parsed.length === 0) {
+    const blockRegex =
+      /\b(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD)\b\s+([1-5]\d{2})\s+(https?:\/\/[^\s]+)[\s\S]{0,80}?(\d+(?:\.\d+)?ms)/gi;
+    let match: RegExpExecArray | null;
+    while ((match = blockRegex.exec(pageText)) !== null) {
+      let host: string | null = null;
+      try {
+        host = new URL(match[3]).hostname;
+      } catch {
+        host = extractHost(match[3]);
+      }
+
+      parsed.push({
+        method: match[1].toUpperCase(),
+        status: Number(match[2]),
+        host,
+        requestUrl: match[3],
+        duration: match[4],
+        timestamp: null,
+        detailsUrl: null,
+        title: `${match[1].toUpperCase()} ${match[3]}`
+      });
+    }
+  }
+
+  const unique = new Map<string, Record<string, unknown>>();
+  for (const row of parsed) {
+    const key = [
+      String(row.method || ""),
+      String(row.status || ""),
+      String(row.host || ""),
+      String(row.requestUrl || ""),
+      String(row.timestamp || "")
+    ].join("|");
+    unique.set(key, row);
+  }
+  return Array.from(unique.values());
+}
+
+function isNetworkErrorEntry(entry: Record<string, unknown>): boolean {
+  const status = typeof entry.status === "number" ? entry.status : null;
+  if (status !== null && status >= 400) {
+    return true;
+  }
+
+  const title = typeof entry.title === "string" ? entry.title.toLowerCase() : "";
+  const requestUrl = typeof entry.requestUrl === "string" ? entry.requestUrl.toLowerCase() : "";
+  const haystack = `${title} ${requestUrl}`;
+  return (
+    haystack.includes("error") ||
+    haystack.includes("failed") ||
+    haystack.includes("timeout") ||
+    haystack.includes("abort") ||
+    haystack.includes("blocked") ||
+    haystack.includes("refused") ||
+    haystack.includes("cancel")
+  );
+}
+
+function extractReplayNetworkCountFromDom(): number | null {
+  const tab = getReplayNetworkTabElement();
+  const tabText = tab ? normalizeText(tab.textContent || "") : "";
+  if (tabText) {
+    const match = tabText.match(/network\s*\(?\s*(\d+)\s*\)?/i);
+    if (match) {
+      return Number(match[1]);
+    }
+  }
+  return null;
+}
+
+async function getReplayNetworkEventsFromDomWithRetry(): Promise<Array<Record<string, unknown>>> {
+  await ensureReplayNetworkTabSelected();
+
+  for (let attempt = 0; attempt < 12; attempt += 1) {
+    const parsedFromRows = getReplayNetworkRows()
+      .map((row) => parseReplayNetworkRow(row))
+      .filter((row): row is Record<string, unknown> => Boolean(row));
+    const parsedFromText = parseReplayNetworkEventsFromPageText();
+    const parsed = [...parsedFromRows, ...parsedFromText];
+
+    if (parsed.length > 0) {
+      const unique = new Map<string, Record<string, unknown>>();
+      for (const row of parsed) {
+        const key = [
+          String(row.method || ""),
+          String(row.status || ""),
+          String(row.host || ""),
+          String(row.requestUrl || ""),
+          String(row.timestamp || "")
+        ].join("|");
+        unique.set(key, row);
+      }
+      return Array.from(unique.values());
+    }
+
+    await wait(250);
+  }
+
+  return [];
+}
+
+function asObject(value: unknown): Record<string, unknown> | null {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return value as Record<string, unknown>;
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    const cleaned = value.replace(/[^\d.-]/g, "");
+    if (!cleaned) {
+      return null;
+    }
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toStringValue(value: unknown): string | null {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    return trimmed ? trimmed : null;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return String(value);
+  }
+  return null;
+}
+
+function extractUrlFromText(text: string): string | null {
+  const match = text.match(/https?:\/\/[^\s)"]+/i);
+  return match ? match[0] : null;
+}
+
+async function getReplayDetails(
+  ctx: PageContext,
+  replayId: string,
+  fields: string[]
+): Promise<SentryReplay | null> {
+  if (!ctx.organizationSlug) {
+    return null;
+  }
+  try {
+    const response = await sentryGet<SentryReplay | { data?: SentryReplay }>(
+      ctx,
+      `/api/0/organizations/${ctx.organizationSlug}/replays/${replayId}/`,
+      { field: fields }
+    );
+    const wrapped = (response as { data?: unknown }).data;
+    return wrapped && typeof wrapped === "object" && !Array.isArray(wrapped)
+      ? (wrapped as SentryReplay)
+      : (response as SentryReplay);
+  } catch {
+    return null;
+  }
+}
+
+function extractProjectRefFromReplayDetails(details: SentryReplay | null): string | null {
+  if (!details) {
+    return null;
+  }
+  if (details.project_id !== undefined && details.project_id !== null) {
+    return String(details.project_id);
+  }
+  if (typeof details.project === "string") {
+    return details.project;
+  }
+  if (details.project && typeof details.project === "object") {
+    if (details.project.slug !== undefined && details.project.slug !== null) {
+      return String(details.project.slug);
+    }
+    if (details.project.id !== undefined && details.project.id !== null) {
+      return String(details.project.id);
+    }
+  }
+  return null;
+}
+
+function stringifyNetworkBody(body: unknown): string | null {
+  if (body === undefined || body === null || body === "") {
+    return null;
+  }
+  if (typeof body === "string") {
+    return body;
+  }
+  try {
+    return JSON.stringify(body);
+  } catch {
+    return String(body);
+  }
+}
+
+function parseNetworkExchangePart(
+  value: unknown,
+  settings: NizoSettings
+): Record<string, unknown> | null {
+  const part = asObject(value);
+  if (!part) {
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, headerValue] of toPairs(part.headers)) {
+    const redact = settings.redactHeaders && !SAFE_HEADER_NAMES.has(name.toLowerCase());
+    headers[name] = redact ? REDACTED : truncateText(headerValue, 200);
+  }
+
+  const body = settings.networkBodyMaxLength > 0 ? stringifyNetworkBody(part.body) : null;
+  const warnings = Array.isArray(asObject(part._meta)?.warnings)
+    ? (asObject(part._meta)?.warnings as unknown[]).filter(
+        (warning): warning is string => typeof warning === "string"
+      )
+    : [];
+
+  return {
+    size: toNumber(part.size),
+    headers,
+    body: body !== null ? truncateText(body, settings.networkBodyMaxLength) : null,
+    bodyTruncated: body !== null && body.length > settings.networkBodyMaxLength,
+    ...(warnings.length ? { warnings } : {})
+  };
+}
+
+function parseNetworkRequestFromSegmentPayload(
+  payload: Record<string, unknown>,
+  eventTimestamp: unknown,
+  settings: NizoSettings
+): Record<string, unknown> | null {
+  const payloadData = asObject(payload.data) || {};
+  const description =
+    toStringValue(payload.description) ||
+    toStringValue(payloadData.description) ||
+    "";
+  const op =
+    toStringValue(payload.op) ||
+    toStringValue(payloadData.op) ||
+    "";
+
+  const requestUrl =
+    toStringValue(payloadData.url) ||
+    toStringValue(payloadData.request_url) ||
+    toStringValue(payloadData["http.url"]) ||
+    extractUrlFromText(description) ||
+    null;
+
+  const method =
+    toStringValue(payloadData.method) ||
+    toStringValue(payloadData["http.method"]) ||
+    extractHttpMethod(description) ||
+    null;
+
+  const status =
+    toNumber(payloadData.status) ??
+    toNumber(payloadData.status_code) ??
+    toNumber(payloadData.statusCode) ??
+    toNumber(payloadData["http.status_code"]);
+
+  const startMs = toEpochMs(payload.startTimestamp);
+  const endMs = toEpochMs(payload.endTimestamp);
+  const durationMs =
+    toNumber(payloadData.duration) ??
+    toNumber(payloadData.duration_ms) ??
+    (startMs !== null && endMs !== null ? Math.round(endMs - startMs) : null);
+  const duration = durationMs !== null ? `${durationMs}ms` : null;
+
+  const host =
+    toStringValue(payloadData.host) ||
+    (requestUrl
+      ? (() => {
+          try {
+            return new URL(requestUrl).hostname;
+          } catch {
+            return null;
+          }
+        })()
+      : null);
+
+  const timestamp = toStringValue(eventTimestamp) || null;
+
+  const looksLikeNetwork = /(resource|xhr|fetch|http|network|ajax|request)/i.test(
+    `${op} ${description} ${requestUrl || ""}`
+  );
+  if (!looksLikeNetwork) {
+    return null;
+  }
+
+  if (!method && !status && !requestUrl && !host) {
+    return null;
+  }
+
+  return {
+    method,
+    status,
+    host,
+    requestUrl,
+    duration,
+    durationMs,
+    timestamp,
+    startedAt: startMs !== null ? new Date(startMs).toISOString() : null,
+    detailsUrl: null,
+    title: description || `${method || "REQUEST"} ${requestUrl || host || ""}`.trim(),
+    request: parseNetworkExchangePart(payloadData.request, settings),
+    response: parseNetworkExchangePart(payloadData.response, settings),
+    source: "api-segments"
+  };
+}
+
+function extractNetworkRequestsFromSegmentNode(
+  node: unknown,
+  settings: NizoSettings,
+  collector: Array<Record<string, unknown>>
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      extractNetworkRequestsFromSegmentNode(item, settings, collector);
+    }
+    return;
+  }
+
+  const obj = asObject(node);
+  if (!obj) {
+    return;
+  }
+
+  const data = asObject(obj.data);
+  if (data) {
+    const payload = asObject(data.payload);
+    const parsed = payload
+      ? parseNetworkRequestFromSegmentPayload(payload, obj.timestamp ?? data.timestamp, settings)
+      : null;
+    if (parsed) {
+      collector.push(parsed);
+    }
+  }
+
+  for (const value of Object.values(obj)) {
+    if (Array.isArray(value) || asObject(value)) {
+      extractNetworkRequestsFromSegmentNode(value, settings, collector);
+    }
+  }
+}
+
+async function scanReplayRecordingSegments(
+  ctx: PageContext,
+  organizationSlug: string,
+  replayId: string,
+  projectRef: string,
+  maxSegments: number
+): Promise<RecordingSegmentScan> {
+  const scan: RecordingSegmentScan = {
+    segments: [],
+    segmentsScanned: 0,
+    truncated: false,
+    error: null
+  };
+  const limit = maxSegments > 0 ? maxSegments : Number.MAX_SAFE_INTEGER;
+  let cursor: string | null = null;
+
+  try {
+    do {
+      const page: SentryPage<unknown> = await sentryGetPage<unknown>(
+        ctx,
+        `/api/0/projects/${organizationSlug}/${projectRef}/replays/${replayId}/recording-segments/`,
+        {
+          per_page: Math.min(100, limit - scan.segments.length),
+          ...(cursor ? { cursor } : {})
+        }
+      );
+      const segments = Array.isArray(page.data) ? page.data : page.data ? [page.data] : [];
+      scan.segments.push(...segments.slice(0, limit - scan.segments.length));
+      cursor = segments.length ? page.nextCursor : null;
+      if (cursor && scan.segments.length >= limit) {
+        scan.truncated = true;
+        break;
+      }
+    } while (cursor);
+  } catch (error) {
+    scan.error = error instanceof Error ? error.message : String(error);
+  }
+
+  scan.segmentsScanned = scan.segments.length;
+  return scan;
+}
+
+function describeSegmentScan(scan: RecordingSegmentScan | null): Record<string, unknown> {
+  if (!scan) {
+    return { segmentsScanned: 0, segmentsTruncated: false };
+  }
+  return {
+    segmentsScanned: scan.segmentsScanned,
+    segmentsTruncated: scan.truncated,
+    ...(scan.error ? { segmentsError: scan.error } : {})
+  };
+}
+
+function getReplayNetworkEventsFromSegments(
+  segments: unknown[],
+  settings: NizoSettings
+): Array<Record<string, unknown>> {
+  const collected: Array<Record<string, unknown>> = [];
+  extractNetworkRequestsFromSegmentNode(segments, settings, collected);
+
+  const unique = new Map<string, Record<string, unknown>>();
+  for (const row of collected) {
+    const key = [
+      String(row.method || ""),
+      String(row.status || ""),
+      String(row.host || ""),
+      String(row.requestUrl || ""),
+      String(row.timestamp || "")
+    ].join("|");
+    unique.set(key, row);
+  }
+  return Array.from(unique.values());
+}
+
+const NETWORK_DETAILS_MATCH_WINDOW_MS = 1000;
+
+function getNetworkRowTimeMs(row: Record<string, unknown>, replayStartMs: number | null): number | null {
+  return (
+    toEpochMs(row.startedAt) ??
+    resolveReplayTime(row.timestamp, replayStartMs, toStringValue(row.offsetText)).timestampMs
+  );
+}
+
+function attachNetworkDetails(
+  rows: Array<Record<string, unknown>>,
+  apiRows: Array<Record<string, unknown>>,
+  replayStartMs: number | null
+): Array<Record<string, unknown>> {
+  const withDetails = apiRows.filter((row) => row.request || row.response);
+  const used = new Set<Record<string, unknown>>();
+  const isCompatible = (row: Record<string, unknown>, candidate: Record<string, unknown>) =>
+    !used.has(candidate) &&
+    (!row.method || !candidate.method || candidate.method === row.method) &&
+    (row.status === null || candidate.status === null || candidate.status === row.status);
+  return rows.map((row) => {
+    if (row.request || row.response) {
+      return row;
+    }
+    const rowMs = getNetworkRowTimeMs(row, replayStartMs);
+    const match =
+      withDetails.find(
+        (candidate) =>
+          row.requestUrl &&
+          candidate.requestUrl === row.requestUrl &&
+          isCompatible(row, candidate)
+      ) ||
+      withDetails.find((candidate) => {
+        const candidateMs = getNetworkRowTimeMs(candidate, replayStartMs);
+        return (
+          rowMs !== null &&
+          candidateMs !== null &&
+          Math.abs(candidateMs - rowMs) <= NETWORK_DETAILS_MATCH_WINDOW_MS &&
+          isCompatible(row, candidate)
+        );
+      });
+    if (!match) {
+      return row;
+    }
+    used.add(match);
+    return { ...row, request: match.request, response: match.response };
+  });
+}
+
+function toHarHeaders(value: unknown): Array<{ name: string; value: string }> {
+  const part = asObject(value);
+  return toPairs(part?.headers).map(([name, headerValue]) => ({ name, value: headerValue }));
+}
+
+function getHarMimeType(headers: Array<{ name: string; value: string }>): string {
+  const contentType = headers.find((header) => header.name.toLowerCase() === "content-type");
+  return contentType ? contentType.value : "";
+}
+
+function toHarQueryString(requestUrl: string | null): Array<{ name: string; value: string }> {
+  if (!requestUrl) {
+    return [];
+  }
+  try {
+    const params: Array<{ name: string; value: string }> = [];
+    new URL(requestUrl).searchParams.forEach((value, name) => params.push({ name, value }));
+    return params;
+  } catch {
+    return [];
+  }
+}
+
+function parseDurationMs(duration: unknown): number | null {
+  const text = toStringValue(duration);
+  const value = toNumber(text);
+  if (!text || value === null) {
+    return null;
+  }
+  return /\d\s?s$/i.test(text) && !/ms$/i.test(text) ? value * 1000 : value;
+}
+
+function buildHarEntry(
+  row: Record<string, unknown>,
+  replayStartMs: number | null
+): Record<string, unknown> {
+  const requestUrl = toStringValue(row.requestUrl) || (row.host ? `https://${row.host}/` : "");
+  const request = asObject(row.request);
+  const response = asObject(row.response);
+  const requestHeaders = toHarHeaders(request);
+  const responseHeaders = toHarHeaders(response);
+  const requestBody = toStringValue(request?.body);
+  const responseBody = toStringValue(response?.body);
+  const time = toNumber(row.durationMs) ?? parseDurationMs(row.duration) ?? 0;
+
+  const startedMs =
+    toEpochMs(row.startedAt) ??
+    resolveReplayTime(row.timestamp, replayStartMs, toStringValue(row.offsetText))
+      .timestampMs ??
+    replayStartMs ??
+    Date.now();
+
+  const notes = [
+    request?.bodyTruncated || response?.bodyTruncated ? "Bodies truncated by Nizo." : null,
+    row.source === "api-segments" ? null : "Read from the replay Network tab; timings are approximate."
+  ].filter(Boolean);
+
+  return {
+    startedDateTime: new Date(startedMs).toISOString(),
+    time,
+    request: {
+      method: toStringValue(row.method) || "GET",
+      url: requestUrl,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: requestHeaders,
+      queryString: toHarQueryString(requestUrl),
+      ...(requestBody
+        ? { postData: { mimeType: getHarMimeType(requestHeaders), text: requestBody } }
+        : {}),
+      headersSize: -1,
+      bodySize: toNumber(request?.size) ?? -1
+    },
+    response: {
+      status: typeof row.status === "number" ? row.status : 0,
+      statusText: "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: responseHeaders,
+      content: {
+        size: toNumber(response?.size) ?? responseBody?.length ?? 0,
+        mimeType: getHarMimeType(responseHeaders),
+        ...(responseBody ? { text: responseBody } : {})
+      },
+      redirectURL: "",
+      headersSize: -1,
+      bodySize: toNumber(response?.size) ?? -1
+    },
+    cache: {},
+    timings: { send: 0, wait: time, receive: 0 },
+    ...(notes.length ? { comment: notes.join(" ") } : {})
+  };
+}
+
+function buildHar(
+  rows: Array<Record<string, unknown>>,
+  replay: ReplayResolution,
+  replayStartMs: number | null
+): Record<string, unknown> {
+  const entries = rows
+    .map((row) => buildHarEntry(row, replayStartMs))
+    .sort((a, b) => String(a.startedDateTime).localeCompare(String(b.startedDateTime)));
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "Nizo", version: chrome.runtime?.getManifest?.().version || "0.0.0" },
+      pages: [],
+      entries,
+      comment: `Network activity from Sentry replay ${replay.replayId}: ${replay.replayUrl}`
+    }
+  };
+}
+
+function formatReplayOffset(offsetMs: number): string {
+  const totalSeconds = Math.max(0, Math.floor(offsetMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+    : `${String(minutes).padStart(2, "0")}:${seconds}`;
+}
+
+function parseReplayOffset(text: string): number | null {
+  const match = text.match(/\b(?:(\d{1,2}):)?(\d{1,2}):(\d{2})\b/);
+  if (!match) {
+    return null;
+  }
+  const hours = match[1] ? Number(match[1]) : 0;
+  return ((hours * 60 + Number(match[2])) * 60 + Number(match[3])) * 1000;
+}
+
+function parseWallClockTime(text: string, replayStartMs: number): number | null {
+  const match = text.match(/\b(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.(\d{1,3}))?(?:\s?([AP]M))?\b/i);
+  if (!match) {
+    return null;
+  }
+  let hours = Number(match[1]);
+  if (match[5]) {
+    hours = (hours % 12) + (match[5].toUpperCase() === "PM" ? 12 : 0);
+  }
+  const start = new Date(replayStartMs);
+  const candidate = new Date(
+    start.getFullYear(),
+    start.getMonth(),
+    start.getDate(),
+    hours,
+    Number(match[2]),
+    Number(match[3] || 0),
+    Number((match[4] || "0").padEnd(3, "0"))
+  ).getTime();
+  return candidate < replayStartMs - 12 * 3600 * 1000 ? candidate + 24 * 3600 * 1000 : candidate;
+}
+
+function resolveReplayTime(
+  value: unknown,
+  replayStartMs: number | null,
+  offsetText: string | null = null
+): { timestampMs: number | null; offsetMs: number | null } {
+  const text = toStringValue(value);
+  let timestampMs: number | null = null;
+  let offsetMs: number | null = null;
+
+  if (offsetText) {
+    offsetMs = parseReplayOffset(offsetText);
+  } else if (text && /^\d{10,}(\.\d+)?$/.test(text)) {
+    timestampMs = toEpochMs(Number(text));
+  } else if (text && /\d{4}-\d{2}-\d{2}/.test(text)) {
+    timestampMs = toEpochMs(text);
+  } else if (text && /\d\s?[AP]M\b/i.test(text) && replayStartMs !== null) {
+    timestampMs = parseWallClockTime(text, replayStartMs);
+  }
+
+  if (timestampMs !== null && replayStartMs !== null) {
+    offsetMs = Math.max(0, timestampMs - replayStartMs);
+  } else if (timestampMs === null && offsetMs !== null && replayStartMs !== null) {
+    timestampMs = replayStartMs + offsetMs;
+  }
+  return { timestampMs, offsetMs };
+}
+
+function getReplayTimeUrl(replayUrl: string, offsetMs: number): string {
+  try {
+    const url = new URL(replayUrl);
+    url.searchParams.set("t", String(Math.floor(offsetMs / 1000)));
+    return url.toString();
+  } catch {
+    return replayUrl;
+  }
+}
+
+function withReplayTime(
+  row: Record<string, unknown>,
+  timeValue: unknown,
+  replayUrl: string,
+  replayStartMs: number | null
+): Record<string, unknown> {
+  const { offsetText, ...fields } = row;
+  const { timestampMs, offsetMs } = resolveReplayTime(
+    timeValue,
+    replayStartMs,
+    toStringValue(offsetText)
+  );
+  return {
+    ...fields,
+    timestampIso: timestampMs !== null ? new Date(timestampMs).toISOString() : null,
+    offset: offsetMs !== null ? formatReplayOffset(offsetMs) : null,
+    offsetMs,
+    replayTimeUrl: offsetMs !== null ? getReplayTimeUrl(replayUrl, offsetMs) : null
+  };
+}
+
+function normalizeConsoleLevel(value: string | null): "error" | "warning" | null {
+  const level = (value || "").toLowerCase();
+  if (level === "error" || level === "fatal" || level === "assert") {
+    return "error";
+  }
+  if (level === "warn" || level === "warning") {
+    return "warning";
+  }
+  return null;
+}
+
+function stringifyConsoleArgument(value: unknown): string {
+  if (typeof value === "string") {
+    return truncateText(value, 1000);
+  }
+  try {
+    return truncateText(JSON.stringify(value) ?? String(value), 1000);
+  } catch {
+    return String(value);
+  }
+}
+
+function findConsoleStack(message: string, args: unknown[]): string | null {
+  for (const arg of args) {
+    const stack = toStringValue(asObject(arg)?.stack);
+    if (stack) {
+      return truncateText(stack, 4000);
+    }
+  }
+  const looksLikeStack = (value: string): boolean =>
+    /\n\s*(at\s|File "|#\d+\s)|\n\S*@\S+:\d+/.test(value);
+  const candidate = [message, ...args.filter((arg): arg is string => typeof arg === "string")].find(
+    looksLikeStack
+  );
+  return candidate ? truncateText(candidate, 4000) : null;
+}
+
+function parseConsoleEntryFromSegmentPayload(
+  payload: Record<string, unknown>,
+  eventTimestamp: unknown,
+  replayStartMs: number | null
+): Record<string, unknown> | null {
+  if (toStringValue(payload.category) !== "console") {
+    return null;
+  }
+  const level = normalizeConsoleLevel(toStringValue(payload.level));
+  if (!level) {
+    return null;
+  }
+
+  const payloadData = asObject(payload.data) || {};
+  const args = Array.isArray(payloadData.arguments) ? payloadData.arguments : [];
+  const message =
+    toStringValue(payload.message) || args.map((arg) => stringifyConsoleArgument(arg)).join(" ");
+  const timestampMs = toEpochMs(payload.timestamp) ?? toEpochMs(eventTimestamp);
+  const offsetMs =
+    timestampMs !== null && replayStartMs !== null ? Math.max(0, timestampMs - replayStartMs) : null;
+
+  return {
+    level,
+    message: truncateText(message, 2000),
+    arguments: args.map((arg) => stringifyConsoleArgument(arg)),
+    stack: findConsoleStack(message, args),
+    timestamp: timestampMs !== null ? new Date(timestampMs).toISOString() : null,
+    offset: offsetMs !== null ? formatReplayOffset(offsetMs) : null,
+    offsetMs,
+    source: "api-segments"
+  };
+}
+
+function extractConsoleEntriesFromSegmentNode(
+  node: unknown,
+  replayStartMs: number | null,
+  collector: Array<Record<string, unknown>>
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      extractConsoleEntriesFromSegmentNode(item, replayStartMs, collector);
+    }
+    return;
+  }
+
+  const obj = asObject(node);
+  if (!obj) {
+    return;
+  }
+
+  const data = asObject(obj.data);
+  const payload = data ? asObject(data.payload) : null;
+  if (data && payload) {
+    const parsed = parseConsoleEntryFromSegmentPayload(
+      payload,
+      obj.timestamp ?? data.timestamp,
+      replayStartMs
+    );
+    if (parsed) {
+      collector.push(parsed);
+      return;
+    }
+  }
+
+  for (const value of Object.values(obj)) {
+    if (Array.isArray(value) || asObject(value)) {
+      extractConsoleEntriesFromSegmentNode(value, replayStartMs, collector);
+    }
+  }
+}
+
+function dedupeConsoleEntries(
+  entries: Array<Record<string, unknown>>
+): Array<Record<string, unknown>> {
+  const unique = new Map<string, Record<string, unknown>>();
+  for (const entry of entries) {
+    const key = [
+      String(entry.level || ""),
+      String(entry.message || ""),
+      String(entry.timestamp || entry.offset || "")
+    ].join("|");
+    unique.set(key, entry);
+  }
+  return Array.from(unique.values()).sort(
+    (a, b) =>
+      (typeof a.offsetMs === "number" ? a.offsetMs : Number.MAX_SAFE_INTEGER) -
+      (typeof b.offsetMs === "number" ? b.offsetMs : Number.MAX_SAFE_INTEGER)
+  );
+}
+
+function getReplayConsoleEntriesFromSegments(
+  segments: unknown[],
+  replayStartMs: number | null
+): Array<Record<string, unknown>> {
+  const collected: Array<Record<string, unknown>> = [];
+  extractConsoleEntriesFromSegmentNode(segments, replayStartMs, collected);
+  return dedupeConsoleEntries(collected);
+}
+
+function getReplayConsoleTabElement(): HTMLElement | null {
+  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
+  for (const candidate of candidates) {
+    const text = normalizeText(candidate.textContent || "").toLowerCase();
+    if (text === "console" || text.startsWith("console ")) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+async function ensureReplayConsoleTabSelected(): Promise<void> {
+  const tab = getReplayConsoleTabElement();
+  if (!tab) {
+    return;
+  }
+  if (!isTabActive(tab)) {
+    tab.click();
+    await wait(400);
+  }
+}
+
+function getReplayConsoleRowLevel(row: HTMLElement, rowText: string): "error" | "warning" | null {
+  const hints = [row, ...Array.from(row.querySelectorAll<HTMLElement>("[aria-label], [data-level], svg"))]
+    .map((element) =>
+      [
+        element.getAttribute("data-level"),
+        element.getAttribute("aria-label"),
+        element.getAttribute("class")
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+    .join(" ")
+    .toLowerCase();
+
+  if (/\b(error|fatal|assert)\b/.test(hints)) {
+    return "error";
+  }
+  if (/\bwarn(ing)?\b/.test(hints)) {
+    return "warning";
+  }
+  if (/^(uncaught\s|\w*error\b)/i.test(rowText)) {
+    return "error";
+  }
+  if (/^warn(ing)?\b/i.test(rowText)) {
+    return "warning";
+  }
+  return null;
+}
+
+function getReplayConsoleRows(): HTMLElement[] {
+  const selectors = [
+    "[data-test-id*='console'] [role='row']",
+    "[data-testid*='console'] [role='row']",
+    "[data-test-id*='console'] tbody tr",
+    "[data-testid*='console'] tbody tr",
+    "[role='grid'] [role='row']",
+    "[role='rowgroup'] [role='row']",
+    "table tbody tr"
+  ];
+
+  const rows: HTMLElement[] = [];
+  const seen = new Set<HTMLElement>();
+  for (const selector of selectors) {
+    for (const row of queryAllEverywhere<HTMLElement>(selector)) {
+      if (seen.has(row)) {
+        continue;
       }
-    })() : null) ||
-    extractHost(rowText);
+      seen.add(row);
+      rows.push(row);
+    }
+  }
 
-  if (!method && !status && !host && !requestUrl) {
+  return rows.filter((row) => normalizeText(row.innerText || row.textContent || "") !== "");
+}
+
+function parseReplayConsoleRow(
+  row: HTMLElement,
+  replayStartMs: number | null
+): Record<string, unknown> | null {
+  const rawText = (row.innerText || row.textContent || "").trim();
+  const rowText = normalizeText(rawText);
+  if (!rowText) {
+    return null;
+  }
+
+  const level = getReplayConsoleRowLevel(row, rowText);
+  if (!level) {
+    return null;
+  }
+
+  const offsetText = getReplayOffsetCellText(row);
+  const timeText = offsetText || extractTimestamp(rowText);
+  const { timestampMs, offsetMs } = timeText
+    ? resolveReplayTime(timeText, replayStartMs, offsetText)
+    : { timestampMs: null, offsetMs: null };
+  const message = normalizeText(timeText ? rowText.replace(timeText, "") : rowText);
+
+  return {
+    level,
+    message: truncateText(message, 2000),
+    arguments: [],
+    stack: findConsoleStack(rawText, []),
+    timestamp: timestampMs !== null ? new Date(timestampMs).toISOString() : null,
+    offset: offsetMs !== null ? formatReplayOffset(offsetMs) : null,
+    offsetMs,
+    source: "dom"
+  };
+}
+
+async function getReplayConsoleEntriesFromDomWithRetry(
+  replayStartMs: number | null
+): Promise<Array<Record<string, unknown>>> {
+  await ensureReplayConsoleTabSelected();
+
+  for (let attempt = 0; attempt < 12; attempt += 1) {
+    const parsed = getReplayConsoleRows()
+      .map((row) => parseReplayConsoleRow(row, replayStartMs))
+      .filter((row): row is Record<string, unknown> => Boolean(row));
+
+    if (parsed.length > 0) {
+      return dedupeConsoleEntries(parsed);
+    }
+
+    await wait(250);
+  }
+
+  return [];
+}
+
+function getReplayBreadcrumbsTabElement(): HTMLElement | null {
+  const candidates = queryAllEverywhere<HTMLElement>("[role='tab'], button, a");
+  for (const candidate of candidates) {
+    const text = normalizeText(candidate.textContent || "").toLowerCase();
+    if (text === "breadcrumbs" || text.startsWith("breadcrumbs ")) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+async function ensureReplayBreadcrumbsTabSelected(): Promise<void> {
+  const tab = getReplayBreadcrumbsTabElement();
+  if (!tab) {
+    return;
+  }
+  if (!isTabActive(tab)) {
+    tab.click();
+    await wait(400);
+  }
+}
+
+function getReplayBreadcrumbsPanelElement(): HTMLElement | null {
+  const tab = getReplayBreadcrumbsTabElement();
+  const panelId = tab?.getAttribute("aria-controls");
+  if (tab && panelId) {
+    const panel = tab.ownerDocument.getElementById(panelId);
+    if (panel) {
+      return panel;
+    }
+  }
+  const tabId = tab?.id;
+  if (!tabId) {
+    return null;
+  }
+  return (
+    queryAllEverywhere<HTMLElement>("[role='tabpanel']").find(
+      (panel) => panel.getAttribute("aria-labelledby") === tabId
+    ) || null
+  );
+}
+
+function getReplayBreadcrumbRows(): HTMLElement[] {
+  const panel = getReplayBreadcrumbsPanelElement();
+  const candidates = [
+    ...queryAllEverywhere<HTMLElement>("[data-test-id*='breadcrumb'], [data-testid*='breadcrumb']"),
+    // Generic list rows are only breadcrumbs inside the Breadcrumbs tab panel.
+    ...(panel ? queryAllDeepInRoot<HTMLElement>(panel, "[role='listitem'], [role='row']") : [])
+  ];
+
+  const rows: HTMLElement[] = [];
+  const seen = new Set<HTMLElement>();
+  for (const row of candidates) {
+    if (seen.has(row) || rows.some((existing) => existing.contains(row))) {
+      continue;
+    }
+    seen.add(row);
+    rows.push(row);
+  }
+
+  return rows.filter((row) =>
+    /\b(rage|dead) click\b/i.test(normalizeText(row.innerText || row.textContent || ""))
+  );
+}
+
+function parseReplayClickRow(
+  row: HTMLElement,
+  replayStartMs: number | null
+): Record<string, unknown> | null {
+  const rowText = normalizeText(row.innerText || row.textContent || "");
+  const label = rowText.match(/\b(rage|dead) click\b/i);
+  if (!label) {
+    return null;
+  }
+
+  const offsetText = getReplayOffsetCellText(row);
+  const timeText = offsetText || extractTimestamp(rowText);
+  const { timestampMs } = timeText
+    ? resolveReplayTime(timeText, replayStartMs, offsetText)
+    : { timestampMs: null };
+  const description = normalizeText(
+    rowText.replace(label[0], "").replace(timeText || "", "")
+  );
+  const code = row.querySelector<HTMLElement>("code");
+
+  return {
+    type: label[1].toLowerCase() === "rage" ? "rageClick" : "deadClick",
+    selector: code ? normalizeText(code.textContent || "") : truncateText(description, 300),
+    text: null,
+    component: null,
+    url: null,
+    clickCount: null,
+    timeAfterClickMs: null,
+    timestampMs,
+    offsetText,
+    source: "dom"
+  };
+}
+
+async function getReplayClicksFromDomWithRetry(
+  replayStartMs: number | null
+): Promise<Array<Record<string, unknown>>> {
+  await ensureReplayBreadcrumbsTabSelected();
+
+  for (let attempt = 0; attempt < 12; attempt += 1) {
+    const parsed = getReplayBreadcrumbRows()
+      .map((row) => parseReplayClickRow(row, replayStartMs))
+      .filter((row): row is Record<string, unknown> => Boolean(row));
+
+    if (parsed.length > 0) {
+      return parsed;
+    }
+
+    await wait(250);
+  }
+
+  return [];
+}
+
+function extractPerformanceSpansFromSegmentNode(
+  node: unknown,
+  collector: Array<Record<string, unknown>>
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      extractPerformanceSpansFromSegmentNode(item, collector);
+    }
+    return;
+  }
+
+  const obj = asObject(node);
+  if (!obj) {
+    return;
+  }
+
+  const data = asObject(obj.data);
+  const payload = data ? asObject(data.payload) : null;
+  if (payload && toStringValue(payload.op)) {
+    collector.push(payload);
+    return;
+  }
+
+  for (const value of Object.values(obj)) {
+    if (Array.isArray(value) || asObject(value)) {
+      extractPerformanceSpansFromSegmentNode(value, collector);
+    }
+  }
+}
+
+function getWebVitalName(span: Record<string, unknown>): string | null {
+  const op = toStringValue(span.op) || "";
+  const description = toStringValue(span.description) || "";
+  if (WEB_VITAL_NAMES[op]) {
+    return WEB_VITAL_NAMES[op];
+  }
+  return /^(web-vital|paint)$/.test(op) ? WEB_VITAL_NAMES[description] || null : null;
+}
+
+function rateWebVital(
+  name: string,
+  value: number,
+  settings: NizoSettings
+): "good" | "needs-improvement" | "poor" {
+  const [good, poor] = settings.vitalThresholds?.[name] || DEFAULT_VITAL_THRESHOLDS[name];
+  if (value <= good) {
+    return "good";
+  }
+  return value <= poor ? "needs-improvement" : "poor";
+}
+
+function summarizeWebVitals(
+  spans: Array<Record<string, unknown>>,
+  settings: NizoSettings,
+  replayUrl: string,
+  replayStartMs: number | null
+): Array<Record<string, unknown>> {
+  const worst = new Map<string, { value: number; startMs: number | null; samples: number }>();
+  for (const span of spans) {
+    const name = getWebVitalName(span);
+    const value = toNumber(asObject(span.data)?.value);
+    if (!name || value === null) {
+      continue;
+    }
+    const current = worst.get(name);
+    const startMs = toEpochMs(span.startTimestamp);
+    if (!current || value > current.value) {
+      worst.set(name, { value, startMs, samples: (current?.samples || 0) + 1 });
+    } else {
+      current.samples += 1;
+    }
+  }
+
+  return Object.keys(DEFAULT_VITAL_THRESHOLDS)
+    .filter((name) => worst.has(name))
+    .map((name) => {
+      const { value, startMs, samples } = worst.get(name) as {
+        value: number;
+        startMs: number | null;
+        samples: number;
+      };
+      const [good, poor] = settings.vitalThresholds?.[name] || DEFAULT_VITAL_THRESHOLDS[name];
+      return withReplayTime(
+        {
+          name,
+          value: name === "CLS" ? Number(value.toFixed(3)) : Math.round(value),
+          unit: name === "CLS" ? "score" : "ms",
+          rating: rateWebVital(name, value, settings),
+          thresholds: { good, poor },
+          samples
+        },
+        startMs,
+        replayUrl,
+        replayStartMs
+      );
+    });
+}
+
+function summarizeLongTasks(
+  spans: Array<Record<string, unknown>>,
+  settings: NizoSettings,
+  replayUrl: string,
+  replayStartMs: number | null
+): Record<string, unknown> {
+  const tasks = spans
+    .filter((span) => /long-?task|long-animation-frame/i.test(toStringValue(span.op) || ""))
+    .map((span) => {
+      const startMs = toEpochMs(span.startTimestamp);
+      const endMs = toEpochMs(span.endTimestamp);
+      const durationMs =
+        toNumber(asObject(span.data)?.duration) ??
+        (startMs !== null && endMs !== null ? endMs - startMs : null);
+      return { span, startMs, durationMs };
+    })
+    .filter(
+      (
+        task
+      ): task is { span: Record<string, unknown>; startMs: number | null; durationMs: number } =>
+        task.durationMs !== null && task.durationMs >= settings.longTaskThresholdMs
+    );
+
+  return {
+    count: tasks.length,
+    totalBlockingTimeMs: Math.round(
+      tasks.reduce((total, task) => total + Math.max(0, task.durationMs - 50), 0)
+    ),
+    longest: [...tasks]
+      .sort((a, b) => b.durationMs - a.durationMs)
+      .slice(0, 10)
+      .map((task) =>
+        withReplayTime(
+          {
+            durationMs: Math.round(task.durationMs),
+            description: toStringValue(task.span.description)
+          },
+          task.startMs,
+          replayUrl,
+          replayStartMs
+        )
+      )
+  };
+}
+
+function summarizeMemory(spans: Array<Record<string, unknown>>): Record<string, unknown> | null {
+  const samples = spans
+    .filter((span) => toStringValue(span.op) === "memory")
+    .map((span) => {
+      const memory = asObject(asObject(span.data)?.memory) || {};
+      return {
+        atMs: toEpochMs(span.startTimestamp) ?? 0,
+        used: toNumber(memory.usedJSHeapSize),
+        limit: toNumber(memory.jsHeapSizeLimit)
+      };
+    })
+    .filter((sample): sample is { atMs: number; used: number; limit: number | null } =>
+      sample.used !== null
+    )
+    .sort((a, b) => a.atMs - b.atMs);
+  if (!samples.length) {
+    return null;
+  }
+
+  const toMb = (bytes: number): number => Number((bytes / 1024 / 1024).toFixed(1));
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const peak = Math.max(...samples.map((sample) => sample.used));
+  return {
+    samples: samples.length,
+    startUsedMb: toMb(first.used),
+    endUsedMb: toMb(last.used),
+    peakUsedMb: toMb(peak),
+    growthMb: toMb(last.used - first.used),
+    growthPercent:
+      first.used > 0 ? Math.round(((last.used - first.used) / first.used) * 100) : null,
+    limitMb: last.limit !== null ? toMb(last.limit) : null
+  };
+}
+
+function describeReplayNode(node: Record<string, unknown> | null): {
+  selector: string | null;
+  text: string | null;
+  component: string | null;
+} {
+  if (!node) {
+    return { selector: null, text: null, component: null };
+  }
+  const attributes = asObject(node.attributes) || {};
+  const tagName = (toStringValue(node.tagName) || "").toLowerCase();
+  const id = toStringValue(attributes.id);
+  const classes = (toStringValue(attributes.class) || "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 3)
+    .map((name) => `.${name}`)
+    .join("");
+  const testId =
+    toStringValue(attributes["data-testid"]) ||
+    toStringValue(attributes["data-test-id"]) ||
+    toStringValue(attributes["data-sentry-component"]);
+  const selector = tagName
+    ? `${tagName}${id ? `#${id}` : ""}${classes}${testId ? `[data-testid="${testId}"]` : ""}`
+    : null;
+  const text =
+    toStringValue(node.textContent) ||
+    toStringValue(attributes["aria-label"]) ||
+    toStringValue(attributes.title) ||
+    toStringValue(attributes.alt);
+  return {
+    selector,
+    text: text ? truncateText(normalizeText(text), 120) : null,
+    component: toStringValue(attributes["data-sentry-component"])
+  };
+}
+
+function parseInteractionStepFromSegmentPayload(
+  payload: Record<string, unknown>,
+  eventTimestamp: unknown,
+  replayStartMs: number | null
+): Record<string, unknown> | null {
+  const category = toStringValue(payload.category) || "";
+  const op = toStringValue(payload.op) || "";
+  const payloadData = asObject(payload.data) || {};
+
+  let type: string | null = null;
+  let url: string | null = null;
+  let from: string | null = null;
+  if (category === "ui.click") {
+    type = "click";
+  } else if (category === "ui.input") {
+    type = "input";
+  } else if (category === "ui.multiClick") {
+    type = "rageClick";
+  } else if (category === "ui.slowClickDetected") {
+    type = (toNumber(payloadData.clickCount) ?? 0) >= 5 ? "rageClick" : "deadClick";
+  } else if (category === "navigation") {
+    type = "navigation";
+    url = toStringValue(payloadData.to) || toStringValue(payload.message);
+    from = toStringValue(payloadData.from);
+  } else if (op.startsWith("navigation.")) {
+    type = "navigation";
+    url = toStringValue(payload.description);
+  }
+  if (!type) {
     return null;
   }
 
+  const node = describeReplayNode(asObject(payloadData.node));
+  const timestampMs =
+    toEpochMs(payload.timestamp) ?? toEpochMs(payload.startTimestamp) ?? toEpochMs(eventTimestamp);
+  const offsetMs =
+    timestampMs !== null && replayStartMs !== null ? Math.max(0, timestampMs - replayStartMs) : null;
+
   return {
-    method: method || null,
-    status: status ?? null,
-    host: host || null,
-    requestUrl: requestUrl || null,
-    duration: duration || null,
-    timestamp: timestamp || null,
-    detailsUrl,
-    title: rowText
+    type,
+    selector: type === "navigation" ? null : toStringValue(payload.message) || node.selector,
+    text: node.text,
+    component: node.component,
+    url: url || toStringValue(payloadData.url),
+    from,
+    clickCount: toNumber(payloadData.clickCount),
+    timeAfterClickMs: toNumber(payloadData.timeAfterClickMs),
+    timestamp: timestampMs !== null ? new Date(timestampMs).toISOString() : null,
+    timestampMs,
+    offset: offsetMs !== null ? formatReplayOffset(offsetMs) : null,
+    offsetMs
   };
 }
 
-function parseReplayNetworkEventsFromPageText(): Array<Record<string, unknown>> {
-  const pageText = getPageText();
-  const lines = pageText
-    .split("\n")
-    .map((line) => normalizeText(line))
-    .filter(Boolean);
-
-  const parsed: Array<Record<string, unknown>> = [];
-  for (const line of lines) {
-    if (!extractHttpMethod(line)) {
-      continue;
-    }
-    if (!extractStatusCode(line) && !extractHost(line)) {
-      continue;
+function extractInteractionStepsFromSegmentNode(
+  node: unknown,
+  replayStartMs: number | null,
+  collector: Array<Record<string, unknown>>
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      extractInteractionStepsFromSegmentNode(item, replayStartMs, collector);
     }
+    return;
+  }
 
-    const rawUrlMatch = line.match(/https?:\/\/[^\s]+/i);
-    const method = extractHttpMethod(line);
-    const status = extractStatusCode(line);
-    const duration = extractDuration(line);
-    const timestamp = extractTimestamp(line);
-    const host =
-      extractHost(line) ||
-      (rawUrlMatch ? (() => {
-        try {
-          return new URL(rawUrlMatch[0]).hostname;
-        } catch {
-          return null;
-        }
-      })() : null);
-
-    parsed.push({
-      method: method || null,
-      status: status ?? null,
-      host: host || null,
-      requestUrl: rawUrlMatch ? rawUrlMatch[0] : null,
-      duration: duration || null,
-      timestamp: timestamp || null,
-      detailsUrl: null,
-      title: line
-    });
+  const obj = asObject(node);
+  if (!obj) {
+    return;
   }
 
-  if (parsed.length === 0) {
-    const blockRegex =
-      /\b(GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD)\b\s+([1-5]\d{2})\s+(https?:\/\/[^\s]+)[\s\S]{0,80}?(\d+(?:\.\d+)?ms)/gi;
-    let match: RegExpExecArray | null;
-    while ((match = blockRegex.exec(pageText)) !== null) {
-      let host: string | null = null;
-      try {
-        host = new URL(match[3]).hostname;
-      } catch {
-        host = extractHost(match[3]);
-      }
+  const data = asObject(obj.data);
+  const payload = data ? asObject(data.payload) : null;
+  if (data && payload) {
+    const parsed = parseInteractionStepFromSegmentPayload(
+      payload,
+      obj.timestamp ?? data.timestamp,
+      replayStartMs
+    );
+    if (parsed) {
+      collector.push(parsed);
+      return;
+    }
+  }
 
-      parsed.push({
-        method: match[1].toUpperCase(),
-        status: Number(match[2]),
-        host,
-        requestUrl: match[3],
-        duration: match[4],
-        timestamp: null,
-        detailsUrl: null,
-        title: `${match[1].toUpperCase()} ${match[3]}`
-      });
+  for (const value of Object.values(obj)) {
+    if (Array.isArray(value) || asObject(value)) {
+      extractInteractionStepsFromSegmentNode(value, replayStartMs, collector);
     }
   }
+}
+
+function getReplayInteractionStepsFromSegments(
+  segments: unknown[],
+  replayStartMs: number | null
+): Array<Record<string, unknown>> {
+  const collected: Array<Record<string, unknown>> = [];
+  extractInteractionStepsFromSegmentNode(segments, replayStartMs, collected);
 
   const unique = new Map<string, Record<string, unknown>>();
-  for (const row of parsed) {
+  for (const step of collected) {
+    const second =
+      typeof step.timestampMs === "number" ? Math.round(step.timestampMs / 1000) : "";
     const key = [
-      String(row.method || ""),
-      String(row.status || ""),
-      String(row.host || ""),
-      String(row.requestUrl || ""),
-      String(row.timestamp || "")
+      String(step.type || ""),
+      String(step.selector || ""),
+      String(step.url || ""),
+      String(second)
     ].join("|");
-    unique.set(key, row);
+    if (!unique.has(key)) {
+      unique.set(key, step);
+    }
   }
-  return Array.from(unique.values());
+  return Array.from(unique.values()).sort(
+    (a, b) => Number(a.timestampMs ?? 0) - Number(b.timestampMs ?? 0)
+  );
 }
 
-function isNetworkErrorEntry(entry: Record<string, unknown>): boolean {
-  const status = typeof entry.status === "number" ? entry.status : null;
-  if (status !== null && status >= 400) {
-    return true;
+function getReplayClickIssuesFromSteps(
+  steps: Array<Record<string, unknown>>
+): Array<Record<string, unknown>> {
+  const clicks: Array<Record<string, unknown>> = [];
+  let currentUrl: string | null = null;
+  for (const step of steps) {
+    if (step.type === "navigation") {
+      currentUrl = toStringValue(step.url) || currentUrl;
+      continue;
+    }
+    if (step.type === "rageClick" || step.type === "deadClick") {
+      clicks.push({
+        type: step.type,
+        selector: step.selector,
+        text: step.text,
+        component: step.component,
+        url: toStringValue(step.url) || currentUrl,
+        clickCount: step.clickCount,
+        timeAfterClickMs: step.timeAfterClickMs,
+        timestampMs: step.timestampMs,
+        source: "api-segments"
+      });
+    }
   }
-
-  const title = typeof entry.title === "string" ? entry.title.toLowerCase() : "";
-  const requestUrl = typeof entry.requestUrl === "string" ? entry.requestUrl.toLowerCase() : "";
-  const haystack = `${title} ${requestUrl}`;
-  return (
-    haystack.includes("error") ||
-    haystack.includes("failed") ||
-    haystack.includes("timeout") ||
-    haystack.includes("abort") ||
-    haystack.includes("blocked") ||
-    haystack.includes("refused") ||
-    haystack.includes("cancel")
-  );
+  return clicks;
 }
 
-function extractReplayNetworkCountFromDom(): number | null {
-  const tab = getReplayNetworkTabElement();
-  const tabText = tab ? normalizeText(tab.textContent || "") : "";
-  if (tabText) {
-    const match = tabText.match(/network\s*\(?\s*(\d+)\s*\)?/i);
-    if (match) {
-      return Number(match[1]);
+function attachClickDetails(
+  domRows: Array<Record<string, unknown>>,
+  apiRows: Array<Record<string, unknown>>
+): Array<Record<string, unknown>> {
+  if (!apiRows.length) {
+    return domRows;
+  }
+
+  const used = new Set<Record<string, unknown>>();
+  return domRows.map((row) => {
+    const rowMs = typeof row.timestampMs === "number" ? row.timestampMs : null;
+    const match = apiRows.find(
+      (candidate) =>
+        !used.has(candidate) &&
+        candidate.type === row.type &&
+        rowMs !== null &&
+        typeof candidate.timestampMs === "number" &&
+        Math.abs(candidate.timestampMs - rowMs) <= 2000
+    );
+    if (!match) {
+      return row;
     }
+    used.add(match);
+    return {
+      ...row,
+      selector: match.selector || row.selector,
+      text: match.text || row.text,
+      component: match.component || row.component,
+      url: match.url || row.url,
+      clickCount: match.clickCount ?? row.clickCount,
+      timeAfterClickMs: match.timeAfterClickMs ?? row.timeAfterClickMs
+    };
+  });
+}
+
+function describeInteractionStep(step: Record<string, unknown>): string {
+  const target = [
+    toStringValue(step.selector) || "an element",
+    step.text ? `"${step.text}"` : null
+  ]
+    .filter(Boolean)
+    .join(" ");
+  switch (step.type) {
+    case "navigation":
+      return `Navigate to ${step.url || "?"}`;
+    case "input":
+      return `Type into ${target}`;
+    case "rageClick":
+      return `Rage click${step.clickCount ? ` (${step.clickCount}×)` : ""} on ${target}`;
+    case "deadClick":
+      return `Dead click on ${target}${
+        typeof step.timeAfterClickMs === "number"
+          ? ` (no response after ${(step.timeAfterClickMs / 1000).toFixed(1)}s)`
+          : ""
+      }`;
+    default:
+      return `Click ${target}`;
   }
-  return null;
 }
 
-async function getReplayNetworkEventsFromDomWithRetry(): Promise<Array<Record<string, unknown>>> {
-  await ensureReplayNetworkTabSelected();
+function formatStepGap(ms: number): string {
+  return ms < 1000 ? `+${Math.round(ms)}ms` : `+${(ms / 1000).toFixed(1)}s`;
+}
 
-  for (let attempt = 0; attempt < 12; attempt += 1) {
-    const parsedFromRows = getReplayNetworkRows()
-      .map((row) => parseReplayNetworkRow(row))
-      .filter((row): row is Record<string, unknown> => Boolean(row));
-    const parsedFromText = parseReplayNetworkEventsFromPageText();
-    const parsed = [...parsedFromRows, ...parsedFromText];
+function buildInteractionTrail(
+  steps: Array<Record<string, unknown>>,
+  untilMs: number | null,
+  limit: number
+): Array<Record<string, unknown>> {
+  const eligible =
+    untilMs === null
+      ? steps
+      : steps.filter((step) => typeof step.timestampMs === "number" && step.timestampMs <= untilMs);
+  const selected = limit > 0 ? eligible.slice(-limit) : eligible;
+
+  return selected.map((step, index) => {
+    const previous = index > 0 ? selected[index - 1] : null;
+    const gapMs =
+      previous && typeof previous.timestampMs === "number" && typeof step.timestampMs === "number"
+        ? step.timestampMs - previous.timestampMs
+        : null;
+    const { timestampMs: _timestampMs, ...rest } = step;
+    return {
+      step: index + 1,
+      ...rest,
+      action: describeInteractionStep(step),
+      sincePreviousMs: gapMs,
+      sincePrevious: gapMs !== null ? formatStepGap(gapMs) : null
+    };
+  });
+}
 
-    if (parsed.length > 0) {
-      const unique = new Map<string, Record<string, unknown>>();
-      for (const row of parsed) {
-        const key = [
-          String(row.method || ""),
-          String(row.status || ""),
-          String(row.host || ""),
-          String(row.requestUrl || ""),
-          String(row.timestamp || "")
-        ].join("|");
-        unique.set(key, row);
-      }
-      return Array.from(unique.values());
-    }
+function formatStepsToReproduce(trail: Array<Record<string, unknown>>): string[] {
+  return trail.map(
+    (step) =>
+      `${step.step}. ${step.offset ? `[${step.offset}] ` : ""}${step.action}${
+        step.sincePrevious ? ` (${step.sincePrevious})` : ""
+      }`
+  );
+}
 
-    await wait(250);
+function getReplayErrorTimeMs(
+  event: Record<string, unknown>,
+  replayStartMs: number | null
+): number | null {
+  return resolveReplayTime(event.timestamp, replayStartMs, toStringValue(event.offsetText))
+    .timestampMs;
+}
+
+async function handleRawStacktracePrompt(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue") {
+    throw new Error("Open a Sentry issue page for this action.");
   }
 
-  return [];
+  const settings = await loadSettings();
+  const template = resolvePromptTemplate(settings, options.templateId);
+
+  const domEventId = getEventIdFromDom();
+  const apiEvent = await getIssueEventForPage(ctx, domEventId);
+  const platformStyle = apiEvent?.platform ? getStackStyle(apiEvent.platform) : null;
+  const domStacktrace =
+    apiEvent && hasEventStackFrames(apiEvent)
+      ? null
+      : extractStacktraceFromDom(settings, platformStyle);
+  if (domStacktrace) {
+    const domTitle = getIssueTitleFromDom();
+    const domEvent: SentryEvent = {
+      ...(apiEvent || {}),
+      title: domTitle || apiEvent?.title || undefined,
+      eventID: domEventId || apiEvent?.eventID || undefined
+    };
+    const commits = await getPromptCommits(ctx, settings, template, domEvent);
+    const result = buildPrompt(domEvent, domStacktrace, template, settings, "", commits);
+    return {
+      issueTitle: domEvent.title || null,
+      eventId: domEvent.eventID || null,
+      source: "dom",
+      templateId: template.id,
+      templateName: template.name,
+      budget: describePromptBudget(settings),
+      promptUnit: settings.promptBudgetUnit,
+      promptSize: result.size,
+      trimmed: result.trimmed,
+      prompt: result.prompt
+    };
+  }
+
+  const event = apiEvent || (await getLatestIssueEvent(ctx));
+  const stacktrace = extractRawStacktrace(event, settings);
+  const commits = await getPromptCommits(ctx, settings, template, event);
+  const result = buildPrompt(event, stacktrace, template, settings, "", commits);
+
+  return {
+    issueTitle: event.title || null,
+    eventId: event.eventID || null,
+    source: "api",
+    templateId: template.id,
+    templateName: template.name,
+    budget: describePromptBudget(settings),
+    promptUnit: settings.promptBudgetUnit,
+    promptSize: result.size,
+    trimmed: result.trimmed,
+    prompt: result.prompt
+  };
 }
 
-function asObject(value: unknown): Record<string, unknown> | null {
-  if (value && typeof value === "object" && !Array.isArray(value)) {
-    return value as Record<string, unknown>;
+function withComparisonSection(template: PromptTemplate): PromptTemplate {
+  if (templateUsesAny(template, ["comparison"])) {
+    return template;
   }
-  return null;
+  return {
+    ...template,
+    body: [
+      template.body,
+      "",
+      "{{#comparison}}",
+      "Comparison across recent events:",
+      "{{comparison}}",
+      "{{/comparison}}"
+    ].join("\n")
+  };
 }
 
-function toNumber(value: unknown): number | null {
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return value;
+async function handleMultiEventPrompt(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue") {
+    throw new Error("Open a Sentry issue page for this action.");
   }
-  if (typeof value === "string") {
-    const cleaned = value.replace(/[^\d.-]/g, "");
-    if (!cleaned) {
-      return null;
+
+  const settings = await loadSettings();
+  const selectedTemplate = resolvePromptTemplate(settings, options.templateId);
+  const template = withComparisonSection(selectedTemplate);
+  const count = Math.min(50, Math.max(2, Math.round(settings.compareEventCount) || 5));
+  const events = await getRecentIssueEvents(ctx, count);
+  if (!events.length) {
+    throw new Error("No events found for this issue.");
+  }
+
+  let stacktrace = "";
+  let sampleEvent = events[0];
+  for (const event of events) {
+    try {
+      stacktrace = extractRawStacktrace(event, settings);
+      sampleEvent = event;
+      break;
+    } catch {
+      continue;
+    }
+  }
+  if (!stacktrace) {
+    throw new Error("No exception or thread stacktrace found in the latest events.");
+  }
+
+  const comparison = compareEvents(events);
+  const result = buildPrompt(
+    sampleEvent,
+    stacktrace,
+    template,
+    settings,
+    formatComparison(comparison, events.length),
+    await getPromptCommits(ctx, settings, template, sampleEvent)
+  );
+
+  return {
+    issueTitle: sampleEvent.title || null,
+    eventId: sampleEvent.eventID || null,
+    eventCount: events.length,
+    source: "api",
+    templateId: template.id,
+    templateName: template.name,
+    comparisonAppended: template !== selectedTemplate,
+    comparison,
+    budget: describePromptBudget(settings),
+    promptUnit: settings.promptBudgetUnit,
+    promptSize: result.size,
+    trimmed: result.trimmed,
+    prompt: result.prompt
+  };
+}
+
+async function handleOpenReplay(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  return replay;
+}
+
+async function handleUserDetails(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue") {
+    throw new Error("Open a Sentry issue page for this action.");
+  }
+
+  const event = await getLatestIssueEvent(ctx);
+  const tags = tagsToRecord(event.tags);
+
+  return {
+    issueId: ctx.issueId,
+    eventId: event.eventID || null,
+    user: {
+      id: event.user?.id || null,
+      username: event.user?.username || null,
+      email: event.user?.email || null,
+      ipAddress: event.user?.ip_address || null
+    },
+    device: event.contexts?.device || null,
+    os: event.contexts?.os || null,
+    browser: event.contexts?.browser || null,
+    app: event.contexts?.app || null,
+    tags: {
+      release: tags.release || null,
+      environment: tags.environment || null,
+      level: tags.level || null,
+      device: tags.device || null
+    }
+  };
+}
+
+function getUserSearchFilter(
+  user: SentryEvent["user"]
+): { matchedBy: string; value: string; query: string } | null {
+  const candidates: Array<[string, unknown]> = [
+    ["user.id", user?.id],
+    ["user.email", user?.email],
+    ["user.ip", user?.ip_address]
+  ];
+  for (const [key, value] of candidates) {
+    const text = toStringValue(value);
+    if (text) {
+      return { matchedBy: key, value: text, query: `${key}:"${text.replace(/"/g, '\\"')}"` };
     }
-    const parsed = Number(cleaned);
-    return Number.isFinite(parsed) ? parsed : null;
   }
   return null;
 }
 
-function toStringValue(value: unknown): string | null {
-  if (typeof value === "string") {
-    const trimmed = value.trim();
-    return trimmed ? trimmed : null;
+async function handleUserIssues(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue") {
+    throw new Error("Open a Sentry issue page for this action.");
   }
-  if (typeof value === "number" && Number.isFinite(value)) {
-    return String(value);
+
+  const organizationSlug = assertOrganization(ctx);
+  const event = await getLatestIssueEvent(ctx);
+  const filter = getUserSearchFilter(event.user);
+  if (!filter) {
+    throw new Error("The latest event has no user id, email or IP address to search by.");
   }
-  return null;
+
+  const period = (await loadSettings()).userIssuesPeriod;
+  const { rows, truncated } = await sentryGetAllRows(
+    ctx,
+    `/api/0/organizations/${organizationSlug}/events/`,
+    {
+      query: `event.type:error ${filter.query}`,
+      field: [
+        "issue",
+        "issue.id",
+        "title",
+        "project",
+        "count()",
+        "min(timestamp)",
+        "max(timestamp)"
+      ],
+      sort: "-max(timestamp)",
+      statsPeriod: period
+    },
+    MAX_USER_ISSUES
+  );
+
+  const issuesBaseUrl = `${ctx.origin}/organizations/${organizationSlug}/issues`;
+  // Emails and IPs are URL-encoded past the popup's redaction, so only a user id goes in links.
+  const userQuery =
+    filter.matchedBy === "user.id" && !filter.value.includes("@")
+      ? encodeURIComponent(filter.query)
+      : null;
+  const issues = rows
+    .map((row) => {
+      const issueId = row["issue.id"] !== undefined ? String(row["issue.id"]) : null;
+      return {
+        shortId: toStringValue(row.issue),
+        issueId,
+        title: toStringValue(row.title),
+        project: toStringValue(row.project),
+        userEvents: toNumber(row["count()"]) ?? 0,
+        firstSeen: toStringValue(row["min(timestamp)"]),
+        lastSeen: toStringValue(row["max(timestamp)"]),
+        issueUrl: issueId ? `${issuesBaseUrl}/${issueId}/` : null,
+        userEventsUrl:
+          issueId && userQuery ? `${issuesBaseUrl}/${issueId}/events/?query=${userQuery}` : null
+      };
+    })
+    .filter((issue) => issue.issueId);
+  const currentIssue = issues.find((issue) => issue.issueId === ctx.issueId) || null;
+  const otherIssues = issues.filter((issue) => issue.issueId !== ctx.issueId);
+
+  return {
+    issueId: ctx.issueId,
+    user: {
+      id: event.user?.id || null,
+      username: event.user?.username || null,
+      email: event.user?.email || null,
+      ipAddress: event.user?.ip_address || null
+    },
+    matchedBy: filter.matchedBy,
+    period,
+    currentIssueEvents: currentIssue ? currentIssue.userEvents : 0,
+    totalOtherIssues: otherIssues.length,
+    totalOtherEvents: otherIssues.reduce((total, issue) => total + issue.userEvents, 0),
+    truncated,
+    searchUrl: userQuery ? `${issuesBaseUrl}/?query=${userQuery}&statsPeriod=${period}` : null,
+    ...(userQuery
+      ? {}
+      : { note: `Search links are omitted because the user was matched by ${filter.matchedBy}.` }),
+    issues: otherIssues
+  };
 }
 
-function extractUrlFromText(text: string): string | null {
-  const match = text.match(/https?:\/\/[^\s)"]+/i);
-  return match ? match[0] : null;
+function summarizeIssueTrend(
+  buckets: Array<[number, number]> | undefined
+): Record<string, unknown> {
+  const rows = (buckets || []).map(([start, count]) => ({
+    start: new Date(start * 1000).toISOString(),
+    count
+  }));
+  const peak = rows.reduce<{ start: string; count: number } | null>(
+    (best, row) => (!best || row.count > best.count ? row : best),
+    null
+  );
+  return {
+    total: rows.reduce((total, row) => total + row.count, 0),
+    peak: peak && peak.count > 0 ? peak : null,
+    buckets: rows
+  };
 }
 
-function extractProjectRefFromReplayDetails(details: SentryReplay | null): string | null {
-  if (!details) {
+function formatAssignee(assignee: SentryOwnerActor | null | undefined): string | null {
+  if (!assignee) {
     return null;
   }
-  if (details.project_id !== undefined && details.project_id !== null) {
-    return String(details.project_id);
-  }
-  if (typeof details.project === "string") {
-    return details.project;
+  if (assignee.type === "team") {
+    return `#${assignee.name || assignee.id}`;
   }
-  if (details.project && typeof details.project === "object") {
-    if (details.project.slug !== undefined && details.project.slug !== null) {
-      return String(details.project.slug);
-    }
-    if (details.project.id !== undefined && details.project.id !== null) {
-      return String(details.project.id);
-    }
+  return assignee.email && assignee.email !== assignee.name
+    ? `${assignee.name || assignee.email} <${assignee.email}>`
+    : assignee.name || assignee.email || toStringValue(assignee.id) || null;
+}
+
+async function getIssueTagFacet(
+  ctx: PageContext,
+  organizationSlug: string,
+  issueId: string,
+  key: string
+): Promise<SentryTagFacet | null> {
+  try {
+    return await sentryGet<SentryTagFacet>(
+      ctx,
+      `/api/0/organizations/${organizationSlug}/issues/${issueId}/tags/${encodeURIComponent(key)}/`
+    );
+  } catch {
+    return null;
   }
-  return null;
 }
 
-function parseNetworkRequestFromSegmentPayload(
-  payload: Record<string, unknown>,
-  eventTimestamp: unknown
-): Record<string, unknown> | null {
-  const payloadData = asObject(payload.data) || {};
-  const description =
-    toStringValue(payload.description) ||
-    toStringValue(payloadData.description) ||
-    "";
-  const op =
-    toStringValue(payload.op) ||
-    toStringValue(payloadData.op) ||
-    "";
+async function handleIssueOverview(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue" || !ctx.issueId) {
+    throw new Error("Open a Sentry issue page for this action.");
+  }
 
-  const requestUrl =
-    toStringValue(payloadData.url) ||
-    toStringValue(payloadData.request_url) ||
-    toStringValue(payloadData["http.url"]) ||
-    extractUrlFromText(description) ||
-    null;
+  const organizationSlug = assertOrganization(ctx);
+  const [issue, releaseFacet] = await Promise.all([
+    sentryGet<SentryIssue>(ctx, `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/`),
+    getIssueTagFacet(ctx, organizationSlug, ctx.issueId, "release")
+  ]);
 
-  const method =
-    toStringValue(payloadData.method) ||
-    toStringValue(payloadData["http.method"]) ||
-    extractHttpMethod(description) ||
-    null;
+  const regression = (issue.activity || []).find((item) => item.type === "set_regression");
+  const resolution = (issue.activity || []).find((item) => /^set_resolved/.test(item.type || ""));
+  const eventCount = toNumber(issue.count) ?? 0;
+  const releaseValues = (releaseFacet?.topValues || []).filter((row) => row.value);
+  const releaseTotal = releaseFacet?.totalValues || eventCount;
 
-  const status =
-    toNumber(payloadData.status) ??
-    toNumber(payloadData.status_code) ??
-    toNumber(payloadData.statusCode) ??
-    toNumber(payloadData["http.status_code"]);
+  return {
+    issueId: ctx.issueId,
+    shortId: issue.shortId || null,
+    title: issue.title || null,
+    culprit: issue.culprit || null,
+    project: issue.project?.slug || null,
+    issueUrl:
+      issue.permalink || `${ctx.origin}/organizations/${organizationSlug}/issues/${ctx.issueId}/`,
+    status: issue.status || null,
+    substatus: issue.substatus || null,
+    statusDetails:
+      issue.statusDetails && Object.keys(issue.statusDetails).length ? issue.statusDetails : null,
+    priority: issue.priority || null,
+    level: issue.level || null,
+    isUnhandled: Boolean(issue.isUnhandled),
+    assignee: formatAssignee(issue.assignedTo),
+    firstSeen: issue.firstSeen || null,
+    lastSeen: issue.lastSeen || null,
+    events: eventCount,
+    users: issue.userCount ?? 0,
+    firstRelease: issue.firstRelease?.version || null,
+    lastRelease: issue.lastRelease?.version || null,
+    regression: {
+      isRegressed: issue.substatus === "regressed",
+      lastRegressedAt: regression?.dateCreated || null,
+      regressedInRelease: toStringValue(regression?.data?.version),
+      lastResolvedAt: resolution?.dateCreated || null
+    },
+    releaseSpread: releaseFacet
+      ? {
+          releases: releaseFacet.uniqueValues ?? releaseValues.length,
+          topReleases: releaseValues.slice(0, 5).map((row) => ({
+            release: row.value,
+            events: row.count ?? 0,
+            percent: releaseTotal ? Math.round(((row.count ?? 0) / releaseTotal) * 100) : null
+          }))
+        }
+      : null,
+    trend: {
+      last24h: summarizeIssueTrend(issue.stats?.["24h"]),
+      last14d: summarizeIssueTrend((issue.stats?.["30d"] || []).slice(-14))
+    }
+  };
+}
 
-  const durationMs =
-    toNumber(payloadData.duration) ??
-    toNumber(payloadData.duration_ms) ??
-    toNumber(payloadData["http.response_transfer_size"]) ??
-    null;
-  const duration = durationMs !== null ? `${durationMs}ms` : null;
+function describeTagFacet(
+  facet: SentryTagFacet,
+  threshold: number
+): { tag: Record<string, unknown>; highlights: string[] } | null {
+  const key = facet.key || "";
+  const total = facet.totalValues || 0;
+  if (!key || !total) {
+    return null;
+  }
 
-  const host =
-    toStringValue(payloadData.host) ||
-    (requestUrl
-      ? (() => {
-          try {
-            return new URL(requestUrl).hostname;
-          } catch {
-            return null;
-          }
-        })()
-      : null);
+  const topValues = (facet.topValues || []).map((row) => ({
+    value: row.value ?? null,
+    count: row.count ?? 0,
+    percent: Math.round(((row.count ?? 0) / total) * 100)
+  }));
+  const label = facet.name && facet.name !== key ? facet.name.toLowerCase() : key;
+  const highlights = topValues
+    .filter((row) => row.percent >= threshold)
+    .map((row) => `${row.percent}% on ${label} ${row.value ?? "(empty)"}`);
 
-  const timestamp = toStringValue(eventTimestamp) || null;
+  return {
+    tag: {
+      key,
+      name: facet.name || key,
+      events: total,
+      uniqueValues: facet.uniqueValues ?? topValues.length,
+      topValues
+    },
+    highlights
+  };
+}
 
-  const looksLikeNetwork = /(resource|xhr|fetch|http|network|ajax|request)/i.test(
-    `${op} ${description} ${requestUrl || ""}`
-  );
-  if (!looksLikeNetwork) {
-    return null;
+async function handleIssueTagDistribution(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue" || !ctx.issueId) {
+    throw new Error("Open a Sentry issue page for this action.");
   }
 
-  if (!method && !status && !requestUrl && !host) {
+  const organizationSlug = assertOrganization(ctx);
+  const threshold = (await loadSettings()).tagConcentrationThreshold;
+  const facets = await sentryGet<SentryTagFacet[]>(
+    ctx,
+    `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/tags/`,
+    { limit: 10 }
+  );
+
+  const rank = (key: string): number => {
+    const index = FEATURED_TAG_KEYS.indexOf(key);
+    return index === -1 ? FEATURED_TAG_KEYS.length : index;
+  };
+  const described = (Array.isArray(facets) ? facets : [])
+    .map((facet) => describeTagFacet(facet, threshold))
+    .filter((facet): facet is { tag: Record<string, unknown>; highlights: string[] } =>
+      Boolean(facet)
+    )
+    .sort((a, b) => {
+      const keyA = String(a.tag.key);
+      const keyB = String(b.tag.key);
+      return rank(keyA) - rank(keyB) || keyA.localeCompare(keyB);
+    });
+
+  return {
+    issueId: ctx.issueId,
+    threshold,
+    highlights: described.flatMap((facet) => facet.highlights),
+    tags: described.map((facet) => facet.tag)
+  };
+}
+
+function formatCommitAuthor(author: SentryCommitAuthor | null | undefined): string | null {
+  if (!author) {
     return null;
   }
+  return author.name && author.email
+    ? `${author.name} <${author.email}>`
+    : author.name || author.email || null;
+}
 
+function describeCommit(commit: SentryCommit): Record<string, unknown> {
   return {
-    method,
-    status,
-    host,
-    requestUrl,
-    duration,
-    timestamp,
-    detailsUrl: null,
-    title: description || `${method || "REQUEST"} ${requestUrl || host || ""}`.trim(),
-    source: "api-segments"
+    id: commit.id || null,
+    shortId: commit.id ? commit.id.slice(0, 7) : null,
+    message: commit.message ? commit.message.split("\n")[0].trim() : null,
+    author: formatCommitAuthor(commit.author),
+    date: commit.dateCreated || null,
+    repository: commit.repository?.name || null,
+    ...(commit.suspectCommitType ? { reason: commit.suspectCommitType } : {}),
+    ...(commit.pullRequest?.externalUrl ? { pullRequestUrl: commit.pullRequest.externalUrl } : {})
   };
 }
 
-function extractNetworkRequestsFromSegmentNode(
-  node: unknown,
-  collector: Array<Record<string, unknown>>
-): void {
-  if (Array.isArray(node)) {
-    for (const item of node) {
-      extractNetworkRequestsFromSegmentNode(item, collector);
+async function getCommitReport(
+  ctx: PageContext,
+  organizationSlug: string,
+  projectSlug: string | null,
+  event: SentryEvent
+): Promise<CommitReport> {
+  const report: CommitReport = {
+    release: null,
+    suspectCommits: [],
+    releaseCommits: [],
+    releaseCommitsTruncated: false,
+    notes: []
+  };
+  const addNote = (note: string): void => {
+    if (!report.notes.includes(note)) {
+      report.notes.push(note);
     }
-    return;
+  };
+
+  if (projectSlug && event.eventID) {
+    try {
+      const result = await sentryGet<SentryCommitters>(
+        ctx,
+        `/api/0/projects/${organizationSlug}/${projectSlug}/events/${event.eventID}/committers/`
+      );
+      for (const committer of result.committers || []) {
+        for (const commit of committer.commits || []) {
+          report.suspectCommits.push(
+            describeCommit({ ...commit, author: commit.author || committer.author })
+          );
+        }
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/not found|no commits|no committers|404/i.test(message)) {
+        addNote(NO_COMMITS_EXPLANATION);
+      } else {
+        addNote(`Suspect commits unavailable: ${message}`);
+      }
+    }
+  } else {
+    addNote("Suspect commits need the issue's project and event ID, which could not be loaded.");
   }
 
-  const obj = asObject(node);
-  if (!obj) {
-    return;
+  const version = tagsToRecord(event.tags).release || null;
+  if (!version) {
+    addNote("The event has no release tag, so Sentry cannot link it to a release or its commits.");
+    return report;
   }
 
-  const data = asObject(obj.data);
-  if (data) {
-    const payload = asObject(data.payload);
-    const parsed = payload
-      ? parseNetworkRequestFromSegmentPayload(payload, obj.timestamp ?? data.timestamp)
-      : null;
-    if (parsed) {
-      collector.push(parsed);
-    }
+  const releasePath = `/api/0/organizations/${organizationSlug}/releases/${encodeURIComponent(
+    version
+  )}/`;
+  let release: SentryRelease;
+  try {
+    release = await sentryGet<SentryRelease>(ctx, releasePath);
+  } catch (error) {
+    addNote(
+      `Release ${version} could not be loaded: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+    return report;
   }
 
-  for (const value of Object.values(obj)) {
-    if (Array.isArray(value) || asObject(value)) {
-      extractNetworkRequestsFromSegmentNode(value, collector);
-    }
+  report.release = {
+    version: release.version || version,
+    createdAt: release.dateCreated || null,
+    releasedAt: release.dateReleased || null,
+    lastDeploy: release.lastDeploy
+      ? {
+          environment: release.lastDeploy.environment || null,
+          finishedAt: release.lastDeploy.dateFinished || null,
+          name: release.lastDeploy.name || null
+        }
+      : null,
+    deployCount: release.deployCount ?? 0,
+    commitCount: release.commitCount ?? 0,
+    authors: (release.authors || []).map(formatCommitAuthor).filter(Boolean)
+  };
+
+  if (!release.commitCount) {
+    addNote(NO_COMMITS_EXPLANATION);
+    return report;
+  }
+
+  try {
+    const page = await sentryGetPage<SentryCommit[]>(ctx, `${releasePath}commits/`, {
+      per_page: MAX_RELEASE_COMMITS
+    });
+    report.releaseCommits = (Array.isArray(page.data) ? page.data : [])
+      .slice(0, MAX_RELEASE_COMMITS)
+      .map(describeCommit);
+    report.releaseCommitsTruncated =
+      Boolean(page.nextCursor) || release.commitCount > report.releaseCommits.length;
+  } catch (error) {
+    addNote(
+      `Release commits unavailable: ${error instanceof Error ? error.message : String(error)}`
+    );
   }
+
+  return report;
+}
+
+function formatCommitLine(commit: Record<string, unknown>): string {
+  return [
+    `- ${commit.shortId || "?"} ${commit.message || "(no message)"}`,
+    commit.author ? ` — ${commit.author}` : "",
+    commit.date ? ` (${commit.date})` : ""
+  ].join("");
+}
+
+function formatCommitReport(report: CommitReport): string {
+  const lines: string[] = [];
+  const release = report.release;
+  if (release) {
+    const deploy = release.lastDeploy as Record<string, unknown> | null;
+    const details = [
+      deploy?.finishedAt
+        ? `deployed ${deploy.finishedAt}${deploy.environment ? ` to ${deploy.environment}` : ""}`
+        : release.releasedAt
+          ? `released ${release.releasedAt}`
+          : `created ${release.createdAt || "?"}`,
+      `${release.commitCount} commits`
+    ];
+    lines.push(`Release: ${release.version} (${details.join(", ")})`);
+  }
+  if (report.suspectCommits.length) {
+    lines.push("Suspect commits:", ...report.suspectCommits.map(formatCommitLine));
+  }
+  if (report.releaseCommits.length) {
+    lines.push(
+      `Commits in release${report.releaseCommitsTruncated ? " (latest first, truncated)" : ""}:`,
+      ...report.releaseCommits.map(formatCommitLine)
+    );
+  }
+  lines.push(...report.notes.map((note) => `Note: ${note}`));
+  return lines.join("\n");
 }
 
-async function getReplayNetworkEventsFromApiSegments(
+async function getIssueProjectSlug(
   ctx: PageContext,
-  organizationSlug: string,
-  replayId: string,
-  projectRef: string
-): Promise<Array<Record<string, unknown>>> {
+  organizationSlug: string
+): Promise<string | null> {
   try {
-    const raw = await sentryGet<unknown>(
+    const issue = await sentryGet<SentryIssue>(
       ctx,
-      `/api/0/projects/${organizationSlug}/${projectRef}/replays/${replayId}/recording-segments/`,
-      { per_page: 20 }
+      `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/`
     );
+    return issue.project?.slug || null;
+  } catch {
+    return null;
+  }
+}
 
-    const collected: Array<Record<string, unknown>> = [];
-    extractNetworkRequestsFromSegmentNode(raw, collected);
-
-    const unique = new Map<string, Record<string, unknown>>();
-    for (const row of collected) {
-      const key = [
-        String(row.method || ""),
-        String(row.status || ""),
-        String(row.host || ""),
-        String(row.requestUrl || ""),
-        String(row.timestamp || "")
-      ].join("|");
-      unique.set(key, row);
-    }
-    return Array.from(unique.values());
+async function getPromptCommits(
+  ctx: PageContext,
+  settings: NizoSettings,
+  template: PromptTemplate,
+  event: SentryEvent
+): Promise<string> {
+  if (
+    !settings.includeSuspectCommits ||
+    !templateUsesAny(template, ["commits"]) ||
+    !ctx.organizationSlug ||
+    !ctx.issueId
+  ) {
+    return "";
+  }
+  try {
+    const organizationSlug = assertOrganization(ctx);
+    const projectSlug = await getIssueProjectSlug(ctx, organizationSlug);
+    return formatCommitReport(await getCommitReport(ctx, organizationSlug, projectSlug, event));
   } catch {
-    return [];
+    return "";
   }
 }
 
-async function handleRawStacktracePrompt(ctx: PageContext): Promise<Record<string, unknown>> {
-  if (ctx.pageType !== "issue") {
+async function handleSuspectCommits(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue" || !ctx.issueId) {
     throw new Error("Open a Sentry issue page for this action.");
   }
 
-  const domStacktrace = extractStacktraceFromDom();
-  if (domStacktrace) {
-    const domEvent: SentryEvent = {
-      title: getIssueTitleFromDom() || undefined,
-      eventID: getEventIdFromDom() || undefined
-    };
-    return {
-      issueTitle: domEvent.title || null,
-      eventId: domEvent.eventID || null,
-      source: "dom",
-      prompt: buildPrompt(domEvent, domStacktrace)
-    };
+  const organizationSlug = assertOrganization(ctx);
+  const [event, projectSlug] = await Promise.all([
+    getLatestIssueEvent(ctx),
+    getIssueProjectSlug(ctx, organizationSlug)
+  ]);
+  const report = await getCommitReport(ctx, organizationSlug, projectSlug, event);
+
+  return {
+    issueId: ctx.issueId,
+    eventId: event.eventID || null,
+    ...report,
+    summary: formatCommitReport(report)
+  };
+}
+
+function collectEventFrames(event: SentryEvent): SentryFrame[] {
+  return [...getExceptionValues(event), ...getThreadValues(event)].flatMap(
+    (value) => value.stacktrace?.frames || []
+  );
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/^\//, "")
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*\*/g, "\u0000")
+    .replace(/\*/g, "[^/]*")
+    .replace(/\?/g, "[^/]")
+    .replace(/\u0000/g, ".*");
+  return new RegExp(`(^|/)${source}${pattern.endsWith("/") ? "" : "($|/)"}`, "i");
+}
+
+function formatOwnershipRule(rule: SentryOwnershipRule): string {
+  const owners = (rule.owners || []).map((owner) =>
+    owner.type === "team" ? `#${owner.identifier}` : owner.identifier || "?"
+  );
+  return [`${rule.matcher?.type || "?"}:${rule.matcher?.pattern || ""}`, ...owners].join(" ");
+}
+
+function explainOwnershipMatch(rule: SentryOwnershipRule, event: SentryEvent): string {
+  const type = rule.matcher?.type || "";
+  const pattern = rule.matcher?.pattern || "";
+  const label = `${type}:${pattern}`;
+
+  if (type === "path" || type === "codeowners" || type === "module") {
+    const matcher =
+      type === "module"
+        ? new RegExp(`^${escapeRegExp(pattern).replace(/\\\*/g, ".*")}$`, "i")
+        : globToRegExp(pattern);
+    for (const frame of collectEventFrames(event).reverse()) {
+      const candidates = type === "module" ? [frame.module] : [frame.filename, frame.abs_path];
+      const hit = candidates.find((value) => value && matcher.test(value.replace(/^\.?\//, "")));
+      if (hit) {
+        const fn = frame.function || frame.raw_function;
+        return `${label} matched ${hit}${fn ? ` (in ${fn})` : ""}`;
+      }
+    }
+  }
+
+  if (type === "url") {
+    const entries = Array.isArray(event.entries) ? event.entries : [];
+    const url = toStringValue(entries.find((entry) => entry.type === "request")?.data?.url);
+    if (url) {
+      return `${label} matched request URL ${url}`;
+    }
   }
 
-  const event = await getLatestIssueEvent(ctx);
-  const stacktrace = extractRawStacktrace(event);
-  const prompt = buildPrompt(event, stacktrace);
+  if (type.startsWith("tags.")) {
+    const key = type.slice("tags.".length);
+    const value = tagsToRecord(event.tags)[key];
+    if (value) {
+      return `${label} matched tag ${key}=${value}`;
+    }
+  }
 
-  return {
-    issueTitle: event.title || null,
-    eventId: event.eventID || null,
-    source: "api",
-    prompt
-  };
+  return `${label} matched this event`;
 }
 
-async function handleOpenReplay(ctx: PageContext): Promise<Record<string, unknown>> {
-  const replay = await resolveReplay(ctx);
-  return replay;
+function ruleNamesActor(rule: SentryOwnershipRule, actor: SentryOwnerActor): boolean {
+  return (rule.owners || []).some((owner) => {
+    const identifier = (owner.identifier || "").toLowerCase();
+    if (owner.type === "team") {
+      return actor.type === "team" && (actor.name || "").toLowerCase() === identifier;
+    }
+    return (
+      actor.type !== "team" &&
+      [actor.email, actor.name].some((value) => (value || "").toLowerCase() === identifier)
+    );
+  });
 }
 
-async function handleUserDetails(ctx: PageContext): Promise<Record<string, unknown>> {
-  if (ctx.pageType !== "issue") {
+async function handleIssueOwnership(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue" || !ctx.issueId) {
     throw new Error("Open a Sentry issue page for this action.");
   }
 
-  const event = await getLatestIssueEvent(ctx);
-  const tags = tagsToRecord(event.tags);
+  const organizationSlug = assertOrganization(ctx);
+  const [issue, event] = await Promise.all([
+    sentryGet<SentryIssue>(
+      ctx,
+      `/api/0/organizations/${organizationSlug}/issues/${ctx.issueId}/`,
+      { expand: "owners" }
+    ),
+    getLatestIssueEvent(ctx)
+  ]);
+  const projectSlug = issue.project?.slug || null;
+  if (!projectSlug) {
+    throw new Error("Unable to resolve the issue's project.");
+  }
+
+  const projectPath = `/api/0/projects/${organizationSlug}/${projectSlug}`;
+  const [eventOwners, ownership, codeowners] = await Promise.all([
+    event.eventID
+      ? sentryGet<SentryEventOwners>(ctx, `${projectPath}/events/${event.eventID}/owners/`).catch(
+          () => null
+        )
+      : Promise.resolve(null),
+    sentryGet<SentryOwnership>(ctx, `${projectPath}/ownership/`).catch(() => null),
+    sentryGet<unknown[]>(ctx, `${projectPath}/codeowners/`).catch(() => null)
+  ]);
+
+  const rules = eventOwners?.rules || [];
+  const actors = eventOwners?.owners || [];
+  const matchedRules = rules.map((rule) => ({
+    rule: formatOwnershipRule(rule),
+    source: rule.matcher?.type === "codeowners" ? "code owners" : "ownership rules",
+    owners: (rule.owners || []).map((owner) =>
+      owner.type === "team" ? `#${owner.identifier}` : owner.identifier || "?"
+    ),
+    matchedBy: explainOwnershipMatch(rule, event)
+  }));
+
+  const suggestions = new Map<string, OwnerSuggestion>();
+  const suspectCommitSuggestions = new Map<string, OwnerSuggestion>();
+  const suggest = (
+    target: Map<string, OwnerSuggestion>,
+    key: string,
+    owner: string,
+    type: string,
+    reason: string
+  ): void => {
+    const existing = target.get(key) || { owner, type, reasons: [] };
+    if (!existing.reasons.includes(reason)) {
+      existing.reasons.push(reason);
+    }
+    target.set(key, existing);
+  };
+  for (const actor of actors) {
+    const key = `${actor.type || "user"}:${actor.id}`;
+    const matching = rules.filter((rule) => ruleNamesActor(rule, actor));
+    for (const rule of matching.length ? matching : [null]) {
+      suggest(
+        suggestions,
+        key,
+        formatAssignee(actor) || "?",
+        actor.type || "user",
+        rule ? explainOwnershipMatch(rule, event) : "ownership rules"
+      );
+    }
+  }
+  for (const groupOwner of issue.owners || []) {
+    const key = groupOwner.owner || "";
+    const type = key.split(":")[0];
+    const actor = actors.find((item) => `${item.type || "user"}:${item.id}` === key);
+    suggest(
+      groupOwner.type === "suspectCommit" ? suspectCommitSuggestions : suggestions,
+      key,
+      (actor && formatAssignee(actor)) || key,
+      type || "user",
+      GROUP_OWNER_REASONS[groupOwner.type || ""] || groupOwner.type || "suggested"
+    );
+  }
+
+  const matched = matchedRules.length > 0;
 
   return {
     issueId: ctx.issueId,
     eventId: event.eventID || null,
-    user: {
-      id: event.user?.id || null,
-      username: event.user?.username || null,
-      email: event.user?.email || null,
-      ipAddress: event.user?.ip_address || null
-    },
-    device: event.contexts?.device || null,
-    os: event.contexts?.os || null,
-    browser: event.contexts?.browser || null,
-    app: event.contexts?.app || null,
-    tags: {
-      release: tags.release || null,
-      environment: tags.environment || null,
-      level: tags.level || null,
-      device: tags.device || null
-    }
+    project: projectSlug,
+    assignee: formatAssignee(issue.assignedTo),
+    ownershipRulesConfigured: ownership ? Boolean(ownership.raw?.trim()) : null,
+    fallthrough: ownership?.fallthrough ?? null,
+    autoAssignment: ownership?.autoAssignment || null,
+    codeownersFiles: Array.isArray(codeowners) ? codeowners.length : null,
+    matched,
+    matchedRules,
+    suggestedAssignees: Array.from(suggestions.values()),
+    suspectCommitSuggestions: Array.from(suspectCommitSuggestions.values()),
+    ...(matched ? {} : { note: "No ownership rule or code owners entry matched this event." })
   };
 }
 
-async function handleReplayErrors(ctx: PageContext): Promise<Record<string, unknown>> {
-  const replay = await resolveReplay(ctx);
+async function handleReplayErrors(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const apiOnly = (await loadSettings()).replayErrorsMode === "api";
+  const replay = await resolveReplay(ctx, options.replayId, apiOnly);
   const organizationSlug = ctx.organizationSlug || null;
 
-  let replayDetails: SentryReplay | null = null;
-  if (organizationSlug) {
-    try {
-      replayDetails = (await sentryGet<SentryReplay>(
-        ctx,
-        `/api/0/organizations/${organizationSlug}/replays/${replay.replayId}/`,
-        {
-          field: ["id", "count_errors", "error_ids"]
-        }
-      )) as SentryReplay;
-    } catch {
-      replayDetails = null;
-    }
-  }
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, [
+    "id",
+    "count_errors",
+    "error_ids",
+    "started_at"
+  ]);
 
   const errorIds =
     replayDetails && Array.isArray(replayDetails.error_ids)
       ? replayDetails.error_ids.filter((value): value is string => Boolean(value))
       : [];
 
-  const replayEventsFromDom = await getReplayErrorEventsFromDomWithRetry();
+  if (apiOnly && !organizationSlug) {
+    assertOrganization(ctx);
+  }
+  const replayEventsFromIds =
+    apiOnly && organizationSlug
+      ? await getReplayErrorEventsFromIds(ctx, organizationSlug, errorIds)
+      : null;
+  const replayEventsFromDom = apiOnly ? [] : await getReplayErrorEventsFromDomWithRetry();
   const replayEventsFromApi =
-    organizationSlug && replayEventsFromDom.length === 0
+    organizationSlug && !apiOnly && replayEventsFromDom.length === 0
       ? await getReplayErrorEvents(ctx, replay.replayId)
       : [];
-  const replayEvents =
-    replayEventsFromDom.length > 0 ? replayEventsFromDom : replayEventsFromApi;
+  const replayEvents = replayEventsFromIds
+    ? replayEventsFromIds.events
+    : replayEventsFromDom.length > 0
+      ? replayEventsFromDom
+      : replayEventsFromApi;
   const linkMaps = collectReplayLinkMaps(ctx);
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
   const replayEventsWithLinks: Array<Record<string, unknown>> = replayEvents.map((event) => {
     const eventId = typeof event.eventId === "string" ? event.eventId : null;
     const issue = typeof event.issue === "string" ? event.issue : null;
 
-    const eventUrl = eventId ? linkMaps.eventLinks[eventId] || null : null;
-    let issueUrl = issue ? linkMaps.issueLinks[issue] || null : null;
+    const eventUrl =
+      (eventId ? linkMaps.eventLinks[eventId] : null) || toStringValue(event.eventUrl) || null;
+    let issueUrl =
+      (issue ? linkMaps.issueLinks[issue] : null) || toStringValue(event.issueUrl) || null;
     if (!issueUrl && organizationSlug && issue) {
       issueUrl = `${ctx.origin}/organizations/${organizationSlug}/issues/?query=${encodeURIComponent(issue)}`;
     }
@@ -1854,7 +5545,7 @@ async function handleReplayErrors(ctx: PageContext): Promise<Record<string, unkn
       eventUrl,
       issueUrl
     };
-    return withLinks;
+    return withReplayTime(withLinks, event.timestamp, replay.replayUrl, replayStartMs);
   });
 
   const issuesInReplay = Array.from(
@@ -1902,13 +5593,23 @@ async function handleReplayErrors(ctx: PageContext): Promise<Record<string, unkn
     replayId: replay.replayId,
     replayUrl: replay.replayUrl,
     source: replay.source,
-    shouldOpenReplay: ctx.pageType !== "replay",
+    shouldOpenReplay: !apiOnly && ctx.pageType !== "replay",
     totalErrors,
     errorEventIds: errorIds.length > 0 ? errorIds : eventIdsFromDom,
     issuesInReplay,
     issueLinks,
     replayEvents: replayEventsWithLinks,
-    replayDataSource: replayEventsFromDom.length > 0 ? "dom" : "api",
+    replayDataSource: replayEventsFromIds
+      ? "api-error-ids"
+      : replayEventsFromDom.length > 0
+        ? "dom"
+        : "api",
+    ...(replayEventsFromIds
+      ? {
+          failedEventIds: replayEventsFromIds.failedEventIds,
+          errorLookupsTruncated: replayEventsFromIds.truncated
+        }
+      : {}),
     debug: {
       domRows: getReplayErrorRows().length,
       domAnchorRows: getReplayErrorRowsFromAnchors().length,
@@ -1919,8 +5620,11 @@ async function handleReplayErrors(ctx: PageContext): Promise<Record<string, unkn
   };
 }
 
-async function handleReplayNetworkErrors(ctx: PageContext): Promise<Record<string, unknown>> {
-  const replay = await resolveReplay(ctx);
+async function handleReplayNetworkErrors(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
   const organizationSlug = ctx.organizationSlug || null;
 
   if (ctx.pageType !== "replay") {
@@ -1937,35 +5641,37 @@ async function handleReplayNetworkErrors(ctx: PageContext): Promise<Record<strin
     };
   }
 
-  let replayDetails: SentryReplay | null = null;
-  if (organizationSlug) {
-    try {
-      replayDetails = (await sentryGet<SentryReplay>(
-        ctx,
-        `/api/0/organizations/${organizationSlug}/replays/${replay.replayId}/`,
-        {
-          field: ["id", "project_id", "project"]
-        }
-      )) as SentryReplay;
-    } catch {
-      replayDetails = null;
-    }
-  }
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
 
+  const settings = await loadSettings();
   const networkRequestsFromDom = await getReplayNetworkEventsFromDomWithRetry();
+  const domNetworkErrors = networkRequestsFromDom.filter((row) => isNetworkErrorEntry(row));
   const projectRef = extractProjectRefFromReplayDetails(replayDetails);
-  const networkRequestsFromApi =
-    networkRequestsFromDom.length === 0 && organizationSlug && projectRef
-      ? await getReplayNetworkEventsFromApiSegments(
+  const segmentScan =
+    (networkRequestsFromDom.length === 0 || domNetworkErrors.length > 0) &&
+    organizationSlug &&
+    projectRef
+      ? await scanReplayRecordingSegments(
           ctx,
           organizationSlug,
           replay.replayId,
-          projectRef
+          projectRef,
+          settings.maxRecordingSegments
         )
-      : [];
+      : null;
+  const networkRequestsFromApi = segmentScan
+    ? getReplayNetworkEventsFromSegments(segmentScan.segments, settings)
+    : [];
   const networkRequests =
     networkRequestsFromDom.length > 0 ? networkRequestsFromDom : networkRequestsFromApi;
-  const networkErrors = networkRequests.filter((row) => isNetworkErrorEntry(row));
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
+  const networkErrors = attachNetworkDetails(
+    networkRequests.filter((row) => isNetworkErrorEntry(row)),
+    networkRequestsFromApi,
+    replayStartMs
+  ).map((row) =>
+    withReplayTime(row, row.startedAt ?? row.timestamp, replay.replayUrl, replayStartMs)
+  );
   const totalNetworkRequests = Math.max(
     extractReplayNetworkCountFromDom() || 0,
     networkRequests.length
@@ -1995,6 +5701,7 @@ async function handleReplayNetworkErrors(ctx: PageContext): Promise<Record<strin
     networkErrors,
     requestLinks,
     networkDataSource: networkRequestsFromDom.length > 0 ? "dom" : "api-segments",
+    ...(segmentScan ? describeSegmentScan(segmentScan) : {}),
     debug: {
       networkRows: getReplayNetworkRows().length,
       networkFromText: parseReplayNetworkEventsFromPageText().length,
@@ -2004,19 +5711,503 @@ async function handleReplayNetworkErrors(ctx: PageContext): Promise<Record<strin
   };
 }
 
-async function runAction(action: NizoAction): Promise<Record<string, unknown>> {
+async function handleReplayConsoleErrors(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  const organizationSlug = ctx.organizationSlug || null;
+
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
+
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
+  const projectRef = extractProjectRefFromReplayDetails(replayDetails);
+  const segmentScan =
+    organizationSlug && projectRef
+      ? await scanReplayRecordingSegments(
+          ctx,
+          organizationSlug,
+          replay.replayId,
+          projectRef,
+          (await loadSettings()).maxRecordingSegments
+        )
+      : null;
+  const consoleFromApi = segmentScan
+    ? getReplayConsoleEntriesFromSegments(segmentScan.segments, replayStartMs)
+    : [];
+
+  if (consoleFromApi.length === 0 && ctx.pageType !== "replay") {
+    return {
+      replayId: replay.replayId,
+      replayUrl: replay.replayUrl,
+      source: replay.source,
+      shouldOpenReplay: true,
+      totalConsoleErrors: 0,
+      totalConsoleWarnings: 0,
+      consoleEntries: [],
+      consoleDataSource: "api-segments",
+      ...describeSegmentScan(segmentScan),
+      note: "Replay tab opened. Run this action again on the replay page to read the Console tab."
+    };
+  }
+
+  const consoleFromDom =
+    consoleFromApi.length === 0 ? await getReplayConsoleEntriesFromDomWithRetry(replayStartMs) : [];
+  const consoleEntries = consoleFromApi.length > 0 ? consoleFromApi : consoleFromDom;
+
+  return {
+    replayId: replay.replayId,
+    replayUrl: replay.replayUrl,
+    source: replay.source,
+    shouldOpenReplay: false,
+    replayStartedAt: replayStartMs !== null ? new Date(replayStartMs).toISOString() : null,
+    totalConsoleErrors: consoleEntries.filter((entry) => entry.level === "error").length,
+    totalConsoleWarnings: consoleEntries.filter((entry) => entry.level === "warning").length,
+    consoleEntries,
+    consoleDataSource: consoleFromApi.length > 0 ? "api-segments" : "dom",
+    ...describeSegmentScan(segmentScan),
+    debug: {
+      consoleFromApi: consoleFromApi.length,
+      consoleRows: ctx.pageType === "replay" ? getReplayConsoleRows().length : 0,
+      projectRef: projectRef || null
+    }
+  };
+}
+
+async function handleReplayInteractionTrail(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  const organizationSlug = ctx.organizationSlug || null;
+  const settings = await loadSettings();
+
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
+
+  const projectRef = extractProjectRefFromReplayDetails(replayDetails);
+  const segmentScan =
+    organizationSlug && projectRef
+      ? await scanReplayRecordingSegments(
+          ctx,
+          organizationSlug,
+          replay.replayId,
+          projectRef,
+          settings.maxRecordingSegments
+        )
+      : null;
+  if (segmentScan?.error && !segmentScan.segments.length) {
+    throw new Error(`Unable to load replay recording segments: ${segmentScan.error}`);
+  }
+  const steps = segmentScan
+    ? getReplayInteractionStepsFromSegments(segmentScan.segments, toEpochMs(replayDetails?.started_at))
+    : [];
+  if (!steps.length) {
+    throw new Error("No interaction breadcrumbs found in this replay's recording segments.");
+  }
+
+  const firstStepMs = typeof steps[0].timestampMs === "number" ? steps[0].timestampMs : null;
+  const replayStartMs = toEpochMs(replayDetails?.started_at) ?? firstStepMs;
+
+  const errorsFromApi = organizationSlug
+    ? await getReplayErrorEvents(ctx, replay.replayId)
+    : [];
+  const replayErrors =
+    errorsFromApi.length > 0 || ctx.pageType !== "replay"
+      ? errorsFromApi
+      : await getReplayErrorEventsFromDomWithRetry();
+
+  const errors = replayErrors
+    .map((event) => {
+      const errorMs = getReplayErrorTimeMs(event, replayStartMs);
+      const trail = buildInteractionTrail(steps, errorMs, settings.trailStepCount);
+      const lastStep = trail[trail.length - 1];
+      const lastStepMs =
+        lastStep && typeof lastStep.timestamp === "string" ? Date.parse(lastStep.timestamp) : null;
+      return {
+        eventId: toStringValue(event.eventId) || toStringValue(event.id),
+        title: toStringValue(event.title),
+        issue: toStringValue(event.issue),
+        timestamp: errorMs !== null ? new Date(errorMs).toISOString() : null,
+        offset:
+          errorMs !== null && replayStartMs !== null
+            ? formatReplayOffset(errorMs - replayStartMs)
+            : null,
+        errorMs,
+        lastStepToError:
+          errorMs !== null && lastStepMs !== null ? formatStepGap(errorMs - lastStepMs) : null,
+        steps: trail,
+        stepsToReproduce: formatStepsToReproduce(trail)
+      };
+    })
+    .sort((a, b) => (a.errorMs ?? Number.MAX_SAFE_INTEGER) - (b.errorMs ?? Number.MAX_SAFE_INTEGER))
+    .map(({ errorMs: _errorMs, ...error }) => error);
+
+  const trail = errors.length ? [] : buildInteractionTrail(steps, null, settings.trailStepCount);
+
+  return {
+    replayId: replay.replayId,
+    replayUrl: replay.replayUrl,
+    source: replay.source,
+    ...describeSegmentScan(segmentScan),
+    totalSteps: steps.length,
+    rageClicks: steps.filter((step) => step.type === "rageClick").length,
+    deadClicks: steps.filter((step) => step.type === "deadClick").length,
+    errors,
+    ...(errors.length
+      ? {}
+      : {
+          note: "No errors found in this replay; showing the last interactions instead.",
+          trail,
+          stepsToReproduce: formatStepsToReproduce(trail)
+        })
+  };
+}
+
+async function handleExportReplayHar(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  const organizationSlug = ctx.organizationSlug || null;
+  const settings = await loadSettings();
+  const harScope = options.harScope === "all" ? "all" : "failures";
+
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
+
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
+  const projectRef = extractProjectRefFromReplayDetails(replayDetails);
+  const segmentScan =
+    organizationSlug && projectRef
+      ? await scanReplayRecordingSegments(
+          ctx,
+          organizationSlug,
+          replay.replayId,
+          projectRef,
+          settings.maxRecordingSegments
+        )
+      : null;
+  const networkRequestsFromApi = segmentScan
+    ? getReplayNetworkEventsFromSegments(segmentScan.segments, settings)
+    : [];
+  const networkRequests =
+    networkRequestsFromApi.length > 0 || ctx.pageType !== "replay"
+      ? networkRequestsFromApi
+      : await getReplayNetworkEventsFromDomWithRetry();
+  if (!networkRequests.length) {
+    throw new Error(
+      ctx.pageType === "replay"
+        ? "No network requests found in this replay."
+        : "No network requests found in the recording segments. Open the replay and try again."
+    );
+  }
+
+  const selected =
+    harScope === "all" ? networkRequests : networkRequests.filter((row) => isNetworkErrorEntry(row));
+  if (!selected.length) {
+    throw new Error("No failed network requests found in this replay.");
+  }
+
+  return {
+    replayId: replay.replayId,
+    replayUrl: replay.replayUrl,
+    source: replay.source,
+    harScope,
+    fileName: `nizo-replay-${replay.replayId.slice(0, 8)}-${harScope}.har`,
+    entryCount: selected.length,
+    totalNetworkRequests: networkRequests.length,
+    networkDataSource: networkRequestsFromApi.length > 0 ? "api-segments" : "dom",
+    ...describeSegmentScan(segmentScan),
+    har: buildHar(selected, replay, replayStartMs)
+  };
+}
+
+async function handleReplayPerformance(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  const organizationSlug = assertOrganization(ctx);
+  const settings = await loadSettings();
+
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
+
+  const projectRef = extractProjectRefFromReplayDetails(replayDetails);
+  if (!projectRef) {
+    throw new Error("Unable to resolve the replay's project to read its recording segments.");
+  }
+  const segmentScan = await scanReplayRecordingSegments(
+    ctx,
+    organizationSlug,
+    replay.replayId,
+    projectRef,
+    settings.maxRecordingSegments
+  );
+  if (segmentScan.error && !segmentScan.segments.length) {
+    throw new Error(`Unable to load replay recording segments: ${segmentScan.error}`);
+  }
+
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
+  const spans: Array<Record<string, unknown>> = [];
+  extractPerformanceSpansFromSegmentNode(segmentScan.segments, spans);
+
+  const requests = getReplayNetworkEventsFromSegments(segmentScan.segments, settings).filter(
+    (row) => typeof row.durationMs === "number"
+  );
+  const slowestRequests = [...requests]
+    .sort((a, b) => Number(b.durationMs) - Number(a.durationMs))
+    .slice(0, settings.slowestRequestCount)
+    .map((row) =>
+      withReplayTime(
+        {
+          method: row.method,
+          status: row.status,
+          requestUrl: row.requestUrl,
+          durationMs: row.durationMs,
+          slow: Number(row.durationMs) >= settings.slowRequestThresholdMs
+        },
+        row.startedAt ?? row.timestamp,
+        replay.replayUrl,
+        replayStartMs
+      )
+    );
+
+  return {
+    replayId: replay.replayId,
+    replayUrl: replay.replayUrl,
+    source: replay.source,
+    ...describeSegmentScan(segmentScan),
+    webVitals: summarizeWebVitals(spans, settings, replay.replayUrl, replayStartMs),
+    totalRequests: requests.length,
+    slowRequestCount: requests.filter(
+      (row) => Number(row.durationMs) >= settings.slowRequestThresholdMs
+    ).length,
+    slowRequestThresholdMs: settings.slowRequestThresholdMs,
+    slowestRequests,
+    longTasks: summarizeLongTasks(spans, settings, replay.replayUrl, replayStartMs),
+    memory: summarizeMemory(spans)
+  };
+}
+
+async function handleReplayRageClicks(
+  ctx: PageContext,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
+  const replay = await resolveReplay(ctx, options.replayId);
+  const organizationSlug = ctx.organizationSlug || null;
+
+  if (ctx.pageType !== "replay") {
+    return {
+      replayId: replay.replayId,
+      replayUrl: replay.replayUrl,
+      source: replay.source,
+      shouldOpenReplay: true,
+      totalRageClicks: 0,
+      totalDeadClicks: 0,
+      clicks: [],
+      clickDataSource: "dom",
+      note: "Replay tab opened. Run this action again on the replay page to extract rage and dead clicks."
+    };
+  }
+
+  const replayDetails = await getReplayDetails(ctx, replay.replayId, REPLAY_DETAIL_FIELDS);
+
+  const settings = await loadSettings();
+  const replayStartMs = toEpochMs(replayDetails?.started_at);
+  const clicksFromDom = await getReplayClicksFromDomWithRetry(replayStartMs);
+  const projectRef = extractProjectRefFromReplayDetails(replayDetails);
+  const segmentScan =
+    organizationSlug && projectRef
+      ? await scanReplayRecordingSegments(
+          ctx,
+          organizationSlug,
+          replay.replayId,
+          projectRef,
+          settings.maxRecordingSegments
+        )
+      : null;
+  const clicksFromApi = segmentScan
+    ? getReplayClickIssuesFromSteps(
+        getReplayInteractionStepsFromSegments(segmentScan.segments, replayStartMs)
+      )
+    : [];
+  const clicks = (
+    clicksFromDom.length > 0 ? attachClickDetails(clicksFromDom, clicksFromApi) : clicksFromApi
+  ).map(({ timestampMs, ...row }) =>
+    withReplayTime(row, timestampMs, replay.replayUrl, replayStartMs)
+  );
+
+  return {
+    replayId: replay.replayId,
+    replayUrl: replay.replayUrl,
+    source: replay.source,
+    shouldOpenReplay: false,
+    totalRageClicks: clicks.filter((row) => row.type === "rageClick").length,
+    totalDeadClicks: clicks.filter((row) => row.type === "deadClick").length,
+    clicks,
+    clickDataSource: clicksFromDom.length > 0 ? "dom" : "api-segments",
+    ...(segmentScan ? describeSegmentScan(segmentScan) : {}),
+    debug: {
+      breadcrumbRows: getReplayBreadcrumbRows().length,
+      clicksFromApi: clicksFromApi.length,
+      projectRef: projectRef || null
+    }
+  };
+}
+
+function formatNameVersion(value: unknown): string | null {
+  const obj = asObject(value);
+  if (!obj) {
+    return toStringValue(value);
+  }
+  const name = toStringValue(obj.name);
+  const version = toStringValue(obj.version);
+  return name ? [name, version].filter(Boolean).join(" ") : null;
+}
+
+function describeReplayUser(value: unknown): string | null {
+  const user = asObject(value);
+  if (!user) {
+    return null;
+  }
+  return (
+    toStringValue(user.display_name) ||
+    toStringValue(user.email) ||
+    toStringValue(user.username) ||
+    toStringValue(user.id) ||
+    toStringValue(user.ip)
+  );
+}
+
+function describeReplayRow(
+  ctx: PageContext,
+  organizationSlug: string,
+  row: Record<string, unknown>
+): Record<string, unknown> | null {
+  const replayId = toStringValue(row.id);
+  if (!replayId) {
+    return null;
+  }
+  const startedMs = toEpochMs(row.started_at);
+  const durationSeconds = toNumber(row.duration);
+  const errorCount = toNumber(row.count_errors) ?? 0;
+  const user = describeReplayUser(row.user);
+  const startedAt = startedMs !== null ? new Date(startedMs).toISOString() : null;
+  const duration = durationSeconds !== null ? formatReplayOffset(durationSeconds * 1000) : null;
+
+  return {
+    replayId,
+    replayUrl: `${ctx.origin}/organizations/${organizationSlug}/replays/${replayId}/`,
+    label: [
+      startedAt ? `${startedAt.slice(0, 16).replace("T", " ")} UTC` : replayId.slice(0, 8),
+      duration,
+      `${errorCount} error${errorCount === 1 ? "" : "s"}`,
+      user
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    startedAt,
+    duration,
+    durationSeconds,
+    errorCount,
+    browser: formatNameVersion(row.browser),
+    os: formatNameVersion(row.os),
+    user,
+    environment: toStringValue(row.environment),
+    releases: Array.isArray(row.releases) ? row.releases.filter(Boolean) : []
+  };
+}
+
+async function handleListIssueReplays(ctx: PageContext): Promise<Record<string, unknown>> {
+  if (ctx.pageType !== "issue" || !ctx.issueId) {
+    throw new Error("Open a Sentry issue page for this action.");
+  }
+
+  const organizationSlug = assertOrganization(ctx);
+  const settings = await loadSettings();
+  const environment = settings.replayEnvironment.trim();
+  const release = settings.replayRelease.trim();
+  const { rows, truncated } = await sentryGetAllRows(
+    ctx,
+    `/api/0/organizations/${organizationSlug}/replays/`,
+    {
+      query: [`issue.id:${ctx.issueId}`, release ? `release:"${release}"` : null]
+        .filter(Boolean)
+        .join(" "),
+      statsPeriod: settings.replayLookback,
+      sort: "-started_at",
+      field: [
+        "id",
+        "started_at",
+        "duration",
+        "count_errors",
+        "browser",
+        "os",
+        "user",
+        "environment",
+        "releases"
+      ],
+      ...(environment ? { environment } : {})
+    },
+    MAX_ISSUE_REPLAYS
+  );
+
+  const replays = rows
+    .map((row) => describeReplayRow(ctx, organizationSlug, row))
+    .filter((row): row is Record<string, unknown> => Boolean(row));
+
+  return {
+    issueId: ctx.issueId,
+    filters: {
+      lookback: settings.replayLookback,
+      environment: environment || null,
+      release: release || null
+    },
+    totalReplays: replays.length,
+    truncated,
+    replays
+  };
+}
+
+async function runAction(
+  action: NizoAction,
+  options: ActionOptions
+): Promise<Record<string, unknown>> {
   const ctx = getPageContext();
   switch (action) {
     case "getRawStacktracePrompt":
-      return handleRawStacktracePrompt(ctx);
+      return handleRawStacktracePrompt(ctx, options);
     case "openReplay":
-      return handleOpenReplay(ctx);
+      return handleOpenReplay(ctx, options);
     case "getUserDetails":
       return handleUserDetails(ctx);
     case "getReplayErrors":
-      return handleReplayErrors(ctx);
+      return handleReplayErrors(ctx, options);
     case "getReplayNetworkErrors":
-      return handleReplayNetworkErrors(ctx);
+      return handleReplayNetworkErrors(ctx, options);
+    case "getMultiEventPrompt":
+      return handleMultiEventPrompt(ctx, options);
+    case "getReplayConsoleErrors":
+      return handleReplayConsoleErrors(ctx, options);
+    case "getReplayInteractionTrail":
+      return handleReplayInteractionTrail(ctx, options);
+    case "exportReplayHar":
+      return handleExportReplayHar(ctx, options);
+    case "listIssueReplays":
+      return handleListIssueReplays(ctx);
+    case "getReplayPerformance":
+      return handleReplayPerformance(ctx, options);
+    case "getReplayRageClicks":
+      return handleReplayRageClicks(ctx, options);
+    case "getUserIssues":
+      return handleUserIssues(ctx);
+    case "getIssueOverview":
+      return handleIssueOverview(ctx);
+    case "getIssueTagDistribution":
+      return handleIssueTagDistribution(ctx);
+    case "getSuspectCommits":
+      return handleSuspectCommits(ctx);
+    case "getIssueOwnership":
+      return handleIssueOwnership(ctx);
     default:
       throw new Error("Unsupported action.");
   }
@@ -2024,7 +6215,7 @@ async function runAction(action: NizoAction): Promise<Record<string, unknown>> {
 
 chrome.runtime.onMessage.addListener(
   (
-    message: { type?: string; action?: NizoAction },
+    message: { type?: string; action?: NizoAction; options?: ActionOptions },
     _sender: unknown,
     sendResponse: (response: { ok: boolean; error?: string; data?: Record<string, unknown> }) => void
   ) => {
@@ -2032,7 +6223,7 @@ chrome.runtime.onMessage.addListener(
       return;
     }
 
-    void runAction(message.action)
+    void runAction(message.action, message.options || {})
       .then((data) => sendResponse({ ok: true, data }))
       .catch((error) =>
         sendResponse({
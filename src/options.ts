@@ -0,0 +1,556 @@
+(() => {
+const chrome: any = (globalThis as any).chrome;
+
+type PromptTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+type RedactionRule = {
+  name: string;
+  pattern: string;
+  flags?: string;
+};
+
+type StoredSettings = {
+  promptTemplates: PromptTemplate[];
+  defaultTemplateId: string;
+  breadcrumbCount: number;
+  includeSourceContext: boolean;
+  includeFrameVars: boolean;
+  collapseLibraryFrames: boolean;
+  includeRequest: boolean;
+  includeRuntime: boolean;
+  redactHeaders: boolean;
+  compareEventCount: number;
+  promptBudget: number;
+  promptBudgetUnit: "tokens" | "characters";
+  trailStepCount: number;
+  maxRecordingSegments: number;
+  networkBodyMaxLength: number;
+  replayLookback: string;
+  replayEnvironment: string;
+  replayRelease: string;
+  replayErrorsMode: "dom" | "api";
+  slowRequestThresholdMs: number;
+  slowestRequestCount: number;
+  longTaskThresholdMs: number;
+  vitalThresholds: Record<string, [number, number]>;
+  userIssuesPeriod: string;
+  tagConcentrationThreshold: number;
+  includeSuspectCommits: boolean;
+  redactPii: boolean;
+  redactionRules: RedactionRule[];
+};
+
+type NumberSettingKey = {
+  [K in keyof StoredSettings]: StoredSettings[K] extends number ? K : never;
+}[keyof StoredSettings];
+
+type BooleanSettingKey = {
+  [K in keyof StoredSettings]: StoredSettings[K] extends boolean ? K : never;
+}[keyof StoredSettings];
+
+type ChoiceSettingKey =
+  | "promptBudgetUnit"
+  | "replayLookback"
+  | "replayErrorsMode"
+  | "userIssuesPeriod";
+
+type TextSettingKey = "replayEnvironment" | "replayRelease";
+
+const BUILT_IN_TEMPLATE_ID = "default";
+
+const WEB_VITALS = ["LCP", "CLS", "INP", "FID", "FCP", "TTFB"];
+
+const PLACEHOLDERS: Array<[string, string]> = [
+  ["summary", "Bullet list of title, event ID, culprit and platform"],
+  ["title", "Issue title"],
+  ["eventId", "Event ID"],
+  ["culprit", "Culprit (transaction or function)"],
+  ["platform", "Event platform"],
+  ["stacktrace", "Raw stacktrace"],
+  ["tags", "Event tags, one per line"],
+  ["user", "User context, one field per line"],
+  ["breadcrumbs", "Last breadcrumbs before the error as a timeline"],
+  ["request", "HTTP request: method, URL, query and headers"],
+  ["runtime", "Event contexts: runtime, OS, browser, trace and custom contexts"],
+  ["commits", "Release, deploy and suspect commits (when enabled under Prompt content)"],
+  ["comparison", "What stays constant or varies across recent events (Compare Recent Events only)"]
+];
+
+const STARTER_TEMPLATE_BODY = [
+  "You are a senior software engineer helping debug a Sentry production issue.",
+  "",
+  "Issue context:",
+  "{{summary}}",
+  "",
+  "{{#user}}",
+  "User:",
+  "{{user}}",
+  "{{/user}}",
+  "",
+  "{{#tags}}",
+  "Tags:",
+  "{{tags}}",
+  "{{/tags}}",
+  "",
+  "Raw stacktrace:",
+  "{{stacktrace}}",
+  "",
+  "Tasks:",
+  "1. Identify the most likely root cause and why.",
+  "2. Suggest the minimum safe fix with implementation notes."
+].join("\n");
+
+const templateList = document.getElementById("templateList") as HTMLSelectElement;
+const newTemplateBtn = document.getElementById("newTemplate") as HTMLButtonElement;
+const templateNameInput = document.getElementById("templateName") as HTMLInputElement;
+const templateBodyInput = document.getElementById("templateBody") as HTMLTextAreaElement;
+const templateIsDefaultInput = document.getElementById("templateIsDefault") as HTMLInputElement;
+const saveTemplateBtn = document.getElementById("saveTemplate") as HTMLButtonElement;
+const deleteTemplateBtn = document.getElementById("deleteTemplate") as HTMLButtonElement;
+const placeholderListEl = document.getElementById("placeholderList") as HTMLUListElement;
+const breadcrumbCountInput = document.getElementById("breadcrumbCount") as HTMLInputElement;
+const includeSourceContextInput = document.getElementById("includeSourceContext") as HTMLInputElement;
+const includeFrameVarsInput = document.getElementById("includeFrameVars") as HTMLInputElement;
+const collapseLibraryFramesInput = document.getElementById(
+  "collapseLibraryFrames"
+) as HTMLInputElement;
+const includeRequestInput = document.getElementById("includeRequest") as HTMLInputElement;
+const includeRuntimeInput = document.getElementById("includeRuntime") as HTMLInputElement;
+const includeSuspectCommitsInput = document.getElementById(
+  "includeSuspectCommits"
+) as HTMLInputElement;
+const redactHeadersInput = document.getElementById("redactHeaders") as HTMLInputElement;
+const compareEventCountInput = document.getElementById("compareEventCount") as HTMLInputElement;
+const promptBudgetInput = document.getElementById("promptBudget") as HTMLInputElement;
+const promptBudgetUnitInput = document.getElementById("promptBudgetUnit") as HTMLSelectElement;
+const trailStepCountInput = document.getElementById("trailStepCount") as HTMLInputElement;
+const maxRecordingSegmentsInput = document.getElementById(
+  "maxRecordingSegments"
+) as HTMLInputElement;
+const networkBodyMaxLengthInput = document.getElementById(
+  "networkBodyMaxLength"
+) as HTMLInputElement;
+const replayLookbackInput = document.getElementById("replayLookback") as HTMLSelectElement;
+const replayEnvironmentInput = document.getElementById("replayEnvironment") as HTMLInputElement;
+const replayReleaseInput = document.getElementById("replayRelease") as HTMLInputElement;
+const replayErrorsModeInput = document.getElementById("replayErrorsMode") as HTMLSelectElement;
+const slowRequestThresholdMsInput = document.getElementById(
+  "slowRequestThresholdMs"
+) as HTMLInputElement;
+const slowestRequestCountInput = document.getElementById("slowestRequestCount") as HTMLInputElement;
+const longTaskThresholdMsInput = document.getElementById("longTaskThresholdMs") as HTMLInputElement;
+const vitalThresholdsInput = document.getElementById("vitalThresholds") as HTMLTextAreaElement;
+const saveVitalThresholdsBtn = document.getElementById("saveVitalThresholds") as HTMLButtonElement;
+const userIssuesPeriodInput = document.getElementById("userIssuesPeriod") as HTMLSelectElement;
+const tagConcentrationThresholdInput = document.getElementById(
+  "tagConcentrationThreshold"
+) as HTMLInputElement;
+const redactPiiInput = document.getElementById("redactPii") as HTMLInputElement;
+const redactionRulesInput = document.getElementById("redactionRules") as HTMLTextAreaElement;
+const saveRedactionRulesBtn = document.getElementById("saveRedactionRules") as HTMLButtonElement;
+const statusEl = document.getElementById("status") as HTMLParagraphElement;
+
+const DEFAULT_SETTINGS: StoredSettings = {
+  promptTemplates: [],
+  defaultTemplateId: BUILT_IN_TEMPLATE_ID,
+  breadcrumbCount: 20,
+  includeSourceContext: true,
+  includeFrameVars: false,
+  collapseLibraryFrames: false,
+  includeRequest: true,
+  includeRuntime: true,
+  redactHeaders: true,
+  compareEventCount: 5,
+  promptBudget: 0,
+  promptBudgetUnit: "tokens",
+  trailStepCount: 15,
+  maxRecordingSegments: 500,
+  networkBodyMaxLength: 2000,
+  replayLookback: "14d",
+  replayEnvironment: "",
+  replayRelease: "",
+  replayErrorsMode: "dom",
+  slowRequestThresholdMs: 3000,
+  slowestRequestCount: 10,
+  longTaskThresholdMs: 50,
+  vitalThresholds: {},
+  userIssuesPeriod: "14d",
+  tagConcentrationThreshold: 80,
+  includeSuspectCommits: false,
+  redactPii: true,
+  redactionRules: []
+};
+
+let settings: StoredSettings = { ...DEFAULT_SETTINGS };
+let draft: PromptTemplate | null = null;
+
+function setStatus(text: string): void {
+  statusEl.textContent = text;
+}
+
+function loadSettings(): Promise<StoredSettings> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(DEFAULT_SETTINGS, (items: Partial<StoredSettings>) => {
+      resolve({
+        ...DEFAULT_SETTINGS,
+        ...items,
+        promptTemplates: Array.isArray(items?.promptTemplates) ? items.promptTemplates : [],
+        defaultTemplateId: items?.defaultTemplateId || BUILT_IN_TEMPLATE_ID
+      });
+    });
+  });
+}
+
+function saveSettings(next: Partial<StoredSettings>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    chrome.storage.sync.set(next, () => {
+      if (chrome.runtime.lastError) {
+        reject(new Error(chrome.runtime.lastError.message || "Unable to save settings."));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
+function listTemplates(): Array<Pick<PromptTemplate, "id" | "name">> {
+  const entries = [
+    { id: BUILT_IN_TEMPLATE_ID, name: "Default (built-in)" },
+    ...settings.promptTemplates.map(({ id, name }) => ({ id, name }))
+  ];
+  if (draft && !settings.promptTemplates.some((template) => template.id === draft?.id)) {
+    entries.push({ id: draft.id, name: `${draft.name || "Untitled"} (unsaved)` });
+  }
+  return entries;
+}
+
+function renderTemplateList(selectedId: string): void {
+  const templates = listTemplates();
+  templateList.replaceChildren(
+    ...templates.map((template) => {
+      const option = document.createElement("option");
+      option.value = template.id;
+      option.textContent = template.name || template.id;
+      return option;
+    })
+  );
+  templateList.value = templates.some((template) => template.id === selectedId)
+    ? selectedId
+    : BUILT_IN_TEMPLATE_ID;
+  renderEditor();
+}
+
+function renderEditor(): void {
+  const selectedId = templateList.value;
+  const isBuiltIn = selectedId === BUILT_IN_TEMPLATE_ID;
+  const template =
+    draft?.id === selectedId
+      ? draft
+      : settings.promptTemplates.find((candidate) => candidate.id === selectedId) || null;
+
+  templateNameInput.disabled = isBuiltIn;
+  templateBodyInput.disabled = isBuiltIn;
+  saveTemplateBtn.disabled = false;
+  deleteTemplateBtn.disabled = isBuiltIn;
+  templateIsDefaultInput.checked = settings.defaultTemplateId === selectedId;
+
+  if (isBuiltIn || !template) {
+    templateNameInput.value = "Default";
+    templateBodyInput.value = "";
+    templateBodyInput.placeholder =
+      "The built-in template ships with Nizo. Create a new template to customize the prompt.";
+    return;
+  }
+
+  templateNameInput.value = template.name;
+  templateBodyInput.value = template.body;
+  templateBodyInput.placeholder = "";
+}
+
+function renderPlaceholderList(): void {
+  placeholderListEl.replaceChildren(
+    ...PLACEHOLDERS.map(([key, description]) => {
+      const item = document.createElement("li");
+      const code = document.createElement("code");
+      code.textContent = `{{${key}}}`;
+      item.append(code, ` — ${description}`);
+      return item;
+    })
+  );
+}
+
+async function persist(
+  next: Partial<StoredSettings>,
+  message: string,
+  selectedId: string
+): Promise<void> {
+  try {
+    await saveSettings(next);
+    settings = { ...settings, ...next };
+    renderTemplateList(selectedId);
+    setStatus(message);
+  } catch (error) {
+    setStatus(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+newTemplateBtn.addEventListener("click", () => {
+  draft = {
+    id: `template-${Date.now().toString(36)}`,
+    name: "New template",
+    body: STARTER_TEMPLATE_BODY
+  };
+  renderTemplateList(draft.id);
+  templateNameInput.focus();
+  templateNameInput.select();
+  setStatus("");
+});
+
+templateList.addEventListener("change", () => {
+  renderEditor();
+  setStatus("");
+});
+
+saveTemplateBtn.addEventListener("click", () => {
+  const selectedId = templateList.value;
+  const defaultTemplateId = templateIsDefaultInput.checked
+    ? selectedId
+    : settings.defaultTemplateId === selectedId
+      ? BUILT_IN_TEMPLATE_ID
+      : settings.defaultTemplateId;
+
+  if (selectedId === BUILT_IN_TEMPLATE_ID) {
+    void persist({ defaultTemplateId }, "Default template updated.", selectedId);
+    return;
+  }
+
+  const name = templateNameInput.value.trim();
+  const body = templateBodyInput.value;
+  if (!name) {
+    setStatus("Give the template a name.");
+    return;
+  }
+  if (!/\{\{\s*stacktrace\s*\}\}/.test(body)) {
+    setStatus("The template must include {{stacktrace}}.");
+    return;
+  }
+
+  const updated: PromptTemplate = { id: selectedId, name, body };
+  const exists = settings.promptTemplates.some((template) => template.id === selectedId);
+  const promptTemplates = exists
+    ? settings.promptTemplates.map((template) => (template.id === selectedId ? updated : template))
+    : [...settings.promptTemplates, updated];
+
+  if (draft?.id === selectedId) {
+    draft = null;
+  }
+  void persist({ promptTemplates, defaultTemplateId }, `Saved "${name}".`, selectedId);
+});
+
+deleteTemplateBtn.addEventListener("click", () => {
+  const selectedId = templateList.value;
+  if (selectedId === BUILT_IN_TEMPLATE_ID) {
+    return;
+  }
+  if (draft?.id === selectedId) {
+    draft = null;
+    renderTemplateList(BUILT_IN_TEMPLATE_ID);
+    setStatus("Draft discarded.");
+    return;
+  }
+
+  const promptTemplates = settings.promptTemplates.filter((template) => template.id !== selectedId);
+  const defaultTemplateId =
+    settings.defaultTemplateId === selectedId ? BUILT_IN_TEMPLATE_ID : settings.defaultTemplateId;
+  void persist({ promptTemplates, defaultTemplateId }, "Template deleted.", BUILT_IN_TEMPLATE_ID);
+});
+
+function bindNumberSetting(input: HTMLInputElement, key: NumberSettingKey): void {
+  input.addEventListener("change", () => {
+    const min = input.min ? Number(input.min) : -Infinity;
+    const max = input.max ? Number(input.max) : Infinity;
+    const parsed = Number(input.value);
+    if (!input.value.trim() || !Number.isFinite(parsed)) {
+      input.value = String(settings[key]);
+      setStatus("Enter a number.");
+      return;
+    }
+    const value = Math.min(max, Math.max(min, Math.round(parsed)));
+    input.value = String(value);
+    void saveSetting({ [key]: value });
+  });
+}
+
+function bindCheckboxSetting(input: HTMLInputElement, key: BooleanSettingKey): void {
+  input.addEventListener("change", () => {
+    void saveSetting({ [key]: input.checked });
+  });
+}
+
+function bindChoiceSetting(input: HTMLSelectElement, key: ChoiceSettingKey): void {
+  input.addEventListener("change", () => {
+    void saveSetting({ [key]: input.value } as Partial<StoredSettings>);
+  });
+}
+
+function bindTextSetting(input: HTMLInputElement, key: TextSettingKey): void {
+  input.addEventListener("change", () => {
+    input.value = input.value.trim();
+    void saveSetting({ [key]: input.value });
+  });
+}
+
+async function saveSetting(patch: Partial<StoredSettings>): Promise<void> {
+  try {
+    await saveSettings(patch);
+    settings = { ...settings, ...patch };
+    setStatus("Settings saved.");
+  } catch (error) {
+    setStatus(`Save failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function formatRedactionRules(rules: RedactionRule[]): string {
+  return rules
+    .map((rule) => `${rule.name}: ${rule.flags ? `/${rule.pattern}/${rule.flags}` : rule.pattern}`)
+    .join("\n");
+}
+
+function parseRedactionRules(text: string): RedactionRule[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      const separator = line.indexOf(":");
+      const name = separator > 0 ? line.slice(0, separator).trim() : "";
+      const source = separator > 0 ? line.slice(separator + 1).trim() : "";
+      if (!/^[\w.-]+$/.test(name) || !source) {
+        throw new Error(`Line ${index + 1}: use "name: pattern".`);
+      }
+      const literal = source.match(/^\/(.+)\/([a-z]*)$/);
+      const pattern = literal ? literal[1] : source;
+      const flags = literal ? literal[2].replace(/g/g, "") : "";
+      try {
+        new RegExp(pattern, flags);
+      } catch (error) {
+        throw new Error(
+          `Line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      return flags ? { name, pattern, flags } : { name, pattern };
+    });
+}
+
+function formatVitalThresholds(thresholds: Record<string, [number, number]>): string {
+  return Object.entries(thresholds)
+    .map(([name, [good, poor]]) => `${name}: ${good}/${poor}`)
+    .join("\n");
+}
+
+function parseVitalThresholds(text: string): Record<string, [number, number]> {
+  const thresholds: Record<string, [number, number]> = {};
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((line, index) => {
+      const match = line.match(/^([A-Za-z]+)\s*:\s*([\d.]+)\s*\/\s*([\d.]+)$/);
+      const name = match ? match[1].toUpperCase() : "";
+      if (!match || !WEB_VITALS.includes(name)) {
+        throw new Error(`Line ${index + 1}: use "${WEB_VITALS.join("|")}: good/poor".`);
+      }
+      const good = Number(match[2]);
+      const poor = Number(match[3]);
+      if (!Number.isFinite(good) || !Number.isFinite(poor) || good > poor) {
+        throw new Error(`Line ${index + 1}: the good limit must not exceed the poor limit.`);
+      }
+      thresholds[name] = [good, poor];
+    });
+  return thresholds;
+}
+
+function renderSettingInputs(): void {
+  breadcrumbCountInput.value = String(settings.breadcrumbCount);
+  includeSourceContextInput.checked = settings.includeSourceContext;
+  includeFrameVarsInput.checked = settings.includeFrameVars;
+  collapseLibraryFramesInput.checked = settings.collapseLibraryFrames;
+  includeRequestInput.checked = settings.includeRequest;
+  includeRuntimeInput.checked = settings.includeRuntime;
+  includeSuspectCommitsInput.checked = settings.includeSuspectCommits;
+  redactHeadersInput.checked = settings.redactHeaders;
+  compareEventCountInput.value = String(settings.compareEventCount);
+  promptBudgetInput.value = String(settings.promptBudget);
+  promptBudgetUnitInput.value = settings.promptBudgetUnit;
+  trailStepCountInput.value = String(settings.trailStepCount);
+  maxRecordingSegmentsInput.value = String(settings.maxRecordingSegments);
+  networkBodyMaxLengthInput.value = String(settings.networkBodyMaxLength);
+  replayLookbackInput.value = settings.replayLookback;
+  replayEnvironmentInput.value = settings.replayEnvironment;
+  replayReleaseInput.value = settings.replayRelease;
+  replayErrorsModeInput.value = settings.replayErrorsMode;
+  slowRequestThresholdMsInput.value = String(settings.slowRequestThresholdMs);
+  slowestRequestCountInput.value = String(settings.slowestRequestCount);
+  longTaskThresholdMsInput.value = String(settings.longTaskThresholdMs);
+  vitalThresholdsInput.value = formatVitalThresholds(settings.vitalThresholds);
+  userIssuesPeriodInput.value = settings.userIssuesPeriod;
+  tagConcentrationThresholdInput.value = String(settings.tagConcentrationThreshold);
+  redactPiiInput.checked = settings.redactPii;
+  redactionRulesInput.value = formatRedactionRules(settings.redactionRules);
+}
+
+bindNumberSetting(breadcrumbCountInput, "breadcrumbCount");
+bindCheckboxSetting(includeSourceContextInput, "includeSourceContext");
+bindCheckboxSetting(includeFrameVarsInput, "includeFrameVars");
+bindCheckboxSetting(collapseLibraryFramesInput, "collapseLibraryFrames");
+bindCheckboxSetting(includeRequestInput, "includeRequest");
+bindCheckboxSetting(includeRuntimeInput, "includeRuntime");
+bindCheckboxSetting(includeSuspectCommitsInput, "includeSuspectCommits");
+bindCheckboxSetting(redactHeadersInput, "redactHeaders");
+bindNumberSetting(compareEventCountInput, "compareEventCount");
+bindNumberSetting(promptBudgetInput, "promptBudget");
+bindChoiceSetting(promptBudgetUnitInput, "promptBudgetUnit");
+bindNumberSetting(trailStepCountInput, "trailStepCount");
+bindNumberSetting(maxRecordingSegmentsInput, "maxRecordingSegments");
+bindNumberSetting(networkBodyMaxLengthInput, "networkBodyMaxLength");
+bindChoiceSetting(replayLookbackInput, "replayLookback");
+bindTextSetting(replayEnvironmentInput, "replayEnvironment");
+bindTextSetting(replayReleaseInput, "replayRelease");
+bindChoiceSetting(replayErrorsModeInput, "replayErrorsMode");
+bindNumberSetting(slowRequestThresholdMsInput, "slowRequestThresholdMs");
+bindNumberSetting(slowestRequestCountInput, "slowestRequestCount");
+bindNumberSetting(longTaskThresholdMsInput, "longTaskThresholdMs");
+bindChoiceSetting(userIssuesPeriodInput, "userIssuesPeriod");
+bindNumberSetting(tagConcentrationThresholdInput, "tagConcentrationThreshold");
+bindCheckboxSetting(redactPiiInput, "redactPii");
+
+saveRedactionRulesBtn.addEventListener("click", () => {
+  try {
+    const redactionRules = parseRedactionRules(redactionRulesInput.value);
+    void saveSetting({ redactionRules });
+  } catch (error) {
+    setStatus(error instanceof Error ? error.message : String(error));
+  }
+});
+
+saveVitalThresholdsBtn.addEventListener("click", () => {
+  try {
+    const vitalThresholds = parseVitalThresholds(vitalThresholdsInput.value);
+    void saveSetting({ vitalThresholds });
+  } catch (error) {
+    setStatus(error instanceof Error ? error.message : String(error));
+  }
+});
+
+renderPlaceholderList();
+void loadSettings().then((loaded) => {
+  settings = loaded;
+  renderTemplateList(settings.defaultTemplateId);
+  renderSettingInputs();
+});
+
+})();
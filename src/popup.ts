@@ -6,7 +6,49 @@ type NizoAction =
   | "openReplay"
   | "getUserDetails"
   | "getReplayErrors"
-  | "getReplayNetworkErrors";
+  | "getReplayNetworkErrors"
+  | "getMultiEventPrompt"
+  | "getReplayConsoleErrors"
+  | "getReplayInteractionTrail"
+  | "exportReplayHar"
+  | "listIssueReplays"
+  | "getReplayPerformance"
+  | "getReplayRageClicks"
+  | "getUserIssues"
+  | "getIssueOverview"
+  | "getIssueTagDistribution"
+  | "getSuspectCommits"
+  | "getIssueOwnership";
+
+type ActionOptions = {
+  templateId?: string;
+  harScope?: "all" | "failures";
+  replayId?: string;
+};
+
+type ReplayChoices = {
+  replays: Array<{ replayId: string; label: string }>;
+  selectedReplayId: string;
+};
+
+type PromptTemplate = {
+  id: string;
+  name: string;
+  body: string;
+};
+
+type RedactionRule = {
+  name: string;
+  pattern: string;
+  flags?: string;
+};
+
+type Redactor = {
+  name: string;
+  regex: RegExp;
+  replace: (match: string, ...groups: string[]) => string;
+  validate?: (match: string, offset: number, text: string) => boolean;
+};
 
 type ContentResponse = {
   ok: boolean;
@@ -14,9 +56,80 @@ type ContentResponse = {
   data?: Record<string, unknown>;
 };
 
+const UNREDACTED_KEYS = new Set([
+  "replayUrl",
+  "replayTimeUrl",
+  "replayId",
+  "eventUrl",
+  "issueUrl",
+  "eventId",
+  "issueId"
+]);
+
+const VERSION_KEY_PATTERN = /(release|version)s?$/i;
+
+const BUILT_IN_REDACTORS: Redactor[] = [
+  {
+    name: "jwt",
+    regex: /\beyJ[\w-]{5,}\.[\w-]{5,}\.[\w-]{5,}/g,
+    replace: () => "[jwt]"
+  },
+  {
+    name: "bearerToken",
+    regex: /\b(Bearer|Token|Basic)\s+([A-Za-z0-9._~+/-]{8,}={0,2})/g,
+    replace: (_match, scheme) => `${scheme} [token]`,
+    validate: (match) => isCredentialShaped(match.replace(/^\S+\s+/, ""))
+  },
+  {
+    name: "apiKey",
+    regex:
+      /\b(?:(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{30,}|xox[abpors]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_-]{35})\b/g,
+    replace: () => "[api-key]"
+  },
+  {
+    name: "secretParameter",
+    regex:
+      /((?:api[_-]?key|access[_-]?token|refresh[_-]?token|auth[_-]?token|token|secret|password|passwd|session[_-]?id|signature|sig)["']?\s*[=:]\s*["']?)([^&\s"',;]{4,})/gi,
+    replace: (_match, prefix) => `${prefix}[redacted]`,
+    validate: (match) => !/\[(redacted|jwt|token|api-key)\]/.test(match)
+  },
+  {
+    name: "email",
+    regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+    replace: () => "[email]"
+  },
+  {
+    name: "ipAddress",
+    regex: /\b(?:25[0-5]|2[0-4]\d|1?\d?\d)(?:\.(?:25[0-5]|2[0-4]\d|1?\d?\d)){3}\b/g,
+    replace: () => "[ip]",
+    validate: (match, offset, text) =>
+      !/\.0\.0\.0$/.test(match) && !isVersionContext(text, offset, offset + match.length)
+  },
+  {
+    name: "ipAddress",
+    regex: /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b|\b(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}:){0,5}[0-9a-f]{1,4}\b/gi,
+    replace: () => "[ip]",
+    validate: (match) => match.split(":").filter(Boolean).length >= 3
+  },
+  {
+    name: "creditCard",
+    regex: /\b[3-6]\d{3}(?:[ -]?\d){9,15}\b/g,
+    replace: () => "[card]",
+    validate: (match) => passesLuhn(match.replace(/\D/g, ""))
+  }
+];
+
 const statusEl = document.getElementById("status") as HTMLParagraphElement;
 const detailsEl = document.getElementById("details") as HTMLPreElement;
 const copyDetailsBtn = document.getElementById("copyDetails") as HTMLButtonElement;
+const templateSelect = document.getElementById("templateSelect") as HTMLSelectElement;
+const harScopeSelect = document.getElementById("harScope") as HTMLSelectElement;
+const replayTargetEl = document.getElementById("replayTarget") as HTMLElement;
+const replaySelectOption = document.getElementById("replaySelectOption") as HTMLElement;
+const replaySelect = document.getElementById("replaySelect") as HTMLSelectElement;
+const replayIdOption = document.getElementById("replayIdOption") as HTMLElement;
+const replayIdInput = document.getElementById("replayIdInput") as HTMLInputElement;
+const openOptionsBtn = document.getElementById("openOptions") as HTMLButtonElement;
 const actionButtons = Array.from(
   document.querySelectorAll<HTMLButtonElement>(".action")
 );
@@ -25,13 +138,20 @@ function setStatus(text: string): void {
   statusEl.textContent = text;
 }
 
+let runRedactions: Record<string, number> = {};
+
 function setDetails(value: unknown): void {
   if (!value) {
     detailsEl.textContent = "";
     copyDetailsBtn.disabled = true;
     return;
   }
-  const rendered = typeof value === "string" ? value : JSON.stringify(value, null, 2);
+  const withRedactions =
+    typeof value === "object" && Object.keys(runRedactions).length
+      ? { ...(value as Record<string, unknown>), redactions: runRedactions }
+      : value;
+  const rendered =
+    typeof withRedactions === "string" ? withRedactions : JSON.stringify(withRedactions, null, 2);
   detailsEl.textContent = rendered;
   copyDetailsBtn.disabled = rendered.trim().length === 0;
 }
@@ -42,6 +162,242 @@ function setLoading(isLoading: boolean): void {
   }
 }
 
+function loadPromptTemplates(): Promise<{
+  templates: Array<Pick<PromptTemplate, "id" | "name">>;
+  defaultTemplateId: string;
+}> {
+  const builtIn = { id: "default", name: "Default" };
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(
+      { promptTemplates: [], defaultTemplateId: builtIn.id },
+      (items: { promptTemplates?: PromptTemplate[]; defaultTemplateId?: string }) => {
+        const stored = Array.isArray(items?.promptTemplates) ? items.promptTemplates : [];
+        resolve({
+          templates: [builtIn, ...stored.map(({ id, name }) => ({ id, name }))],
+          defaultTemplateId: items?.defaultTemplateId || builtIn.id
+        });
+      }
+    );
+  });
+}
+
+async function populateTemplateSelect(): Promise<void> {
+  const { templates, defaultTemplateId } = await loadPromptTemplates();
+  templateSelect.replaceChildren(
+    ...templates.map((template) => {
+      const option = document.createElement("option");
+      option.value = template.id;
+      option.textContent = template.name || template.id;
+      return option;
+    })
+  );
+  templateSelect.value = templates.some((template) => template.id === defaultTemplateId)
+    ? defaultTemplateId
+    : templates[0].id;
+}
+
+function getIssueKey(url?: string): string | null {
+  if (!url) {
+    return null;
+  }
+  try {
+    const parsed = new URL(url);
+    const match = parsed.pathname.match(/\/issues\/([^/?#]+)/);
+    return match ? `${parsed.host}/${match[1]}` : null;
+  } catch {
+    return null;
+  }
+}
+
+function loadAllReplayChoices(): Promise<Record<string, ReplayChoices>> {
+  return new Promise((resolve) => {
+    if (!chrome.storage?.session) {
+      resolve({});
+      return;
+    }
+    chrome.storage.session.get(
+      { replayChoices: {} },
+      (items: { replayChoices?: Record<string, ReplayChoices> }) => {
+        resolve(items?.replayChoices || {});
+      }
+    );
+  });
+}
+
+async function saveReplayChoices(issueKey: string, choices: ReplayChoices): Promise<void> {
+  if (!chrome.storage?.session) {
+    return;
+  }
+  const replayChoices = { ...(await loadAllReplayChoices()), [issueKey]: choices };
+  await new Promise<void>((resolve) => {
+    chrome.storage.session.set({ replayChoices }, () => resolve());
+  });
+}
+
+function renderReplayChoices(choices: ReplayChoices | null): void {
+  const auto = document.createElement("option");
+  auto.value = "";
+  auto.textContent = "Latest replay (auto)";
+  replaySelect.replaceChildren(
+    auto,
+    ...(choices?.replays || []).map((replay) => {
+      const option = document.createElement("option");
+      option.value = replay.replayId;
+      option.textContent = replay.label;
+      return option;
+    })
+  );
+  replaySelect.value =
+    choices && choices.replays.some((replay) => replay.replayId === choices.selectedReplayId)
+      ? choices.selectedReplayId
+      : "";
+  replaySelectOption.hidden = !choices || choices.replays.length === 0;
+  replayTargetEl.hidden = replaySelectOption.hidden && replayIdOption.hidden;
+}
+
+function isReplayUrl(url?: string): boolean {
+  try {
+    return Boolean(url && /\/replays\/[^/?#]+/.test(new URL(url).pathname));
+  } catch {
+    return false;
+  }
+}
+
+function parseReplayIdInput(value: string): string | null {
+  const text = value.trim();
+  const fromUrl = text.match(/\/replays\/([^/?#\s]+)/);
+  if (fromUrl) {
+    return fromUrl[1];
+  }
+  return /^[\w-]+$/.test(text) ? text : null;
+}
+
+async function populateReplaySelect(): Promise<void> {
+  const tab = await getActiveTab().catch(() => null);
+  const issueKey = getIssueKey(tab?.url);
+  // Off issue and replay pages there is no replay to pick, so the ID can be entered directly.
+  replayIdOption.hidden = !isSentryTab(tab?.url) || Boolean(issueKey) || isReplayUrl(tab?.url);
+  renderReplayChoices(issueKey ? (await loadAllReplayChoices())[issueKey] || null : null);
+}
+
+function isCredentialShaped(value: string): boolean {
+  if (/=$/.test(value) || (/\d/.test(value) && /[A-Za-z]/.test(value))) {
+    return true;
+  }
+  return value.length >= 20 && /[a-z]/.test(value) && /[A-Z]/.test(value);
+}
+
+function measurePrompt(text: string, unit: unknown): number {
+  return unit === "characters" ? text.length : Math.ceil(text.length / 4);
+}
+
+function passesLuhn(digits: string): boolean {
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+  let sum = 0;
+  for (let index = 0; index < digits.length; index += 1) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function loadRedactors(): Promise<Redactor[]> {
+  return new Promise((resolve) => {
+    chrome.storage.sync.get(
+      { redactPii: true, redactionRules: [] },
+      (items: { redactPii?: boolean; redactionRules?: RedactionRule[] }) => {
+        const custom = (Array.isArray(items?.redactionRules) ? items.redactionRules : [])
+          .map((rule): Redactor | null => {
+            try {
+              const flags = Array.from(new Set(`${rule.flags || ""}g`)).join("");
+              return {
+                name: rule.name,
+                regex: new RegExp(rule.pattern, flags),
+                replace: () => `[${rule.name}]`
+              };
+            } catch {
+              return null;
+            }
+          })
+          .filter((redactor): redactor is Redactor => Boolean(redactor));
+        resolve([...(items?.redactPii === false ? [] : BUILT_IN_REDACTORS), ...custom]);
+      }
+    );
+  });
+}
+
+function isVersionContext(text: string, start: number, end: number): boolean {
+  const before = text.slice(Math.max(0, start - 16), start);
+  return (
+    /[@.A-Za-z]$/.test(before) ||
+    /\b(?:release|version)s?\s*[:=]?\s*$/i.test(before) ||
+    /^\.\d/.test(text.slice(end, end + 2))
+  );
+}
+
+function redactText(text: string, redactors: Redactor[], counts: Record<string, number>): string {
+  let result = text;
+  for (const redactor of redactors) {
+    redactor.regex.lastIndex = 0;
+    result = result.replace(redactor.regex, (match: string, ...rest: unknown[]) => {
+      const offset = rest.find((value): value is number => typeof value === "number") ?? 0;
+      if (!match || (redactor.validate && !redactor.validate(match, offset, result))) {
+        return match;
+      }
+      counts[redactor.name] = (counts[redactor.name] || 0) + 1;
+      const groups = rest.filter((value): value is string => typeof value === "string");
+      return redactor.replace(match, ...groups);
+    });
+  }
+  return result;
+}
+
+function redactValue(
+  value: unknown,
+  redactors: Redactor[],
+  counts: Record<string, number>,
+  key?: string
+): unknown {
+  const scopedRedactors =
+    key && VERSION_KEY_PATTERN.test(key)
+      ? redactors.filter((redactor) => redactor.name !== "ipAddress")
+      : redactors;
+  if (typeof value === "string") {
+    return key && UNREDACTED_KEYS.has(key) ? value : redactText(value, scopedRedactors, counts);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, scopedRedactors, counts));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([entryKey, entryValue]) => [
+        entryKey,
+        redactValue(entryValue, scopedRedactors, counts, entryKey)
+      ])
+    );
+  }
+  return value;
+}
+
+function getActionOptions(): ActionOptions {
+  return {
+    templateId: templateSelect.value || undefined,
+    harScope: harScopeSelect.value === "all" ? "all" : "failures",
+    replayId:
+      replaySelect.value ||
+      (replayIdOption.hidden ? null : parseReplayIdInput(replayIdInput.value)) ||
+      undefined
+  };
+}
+
 function getActiveTab(): Promise<{ id: number; url?: string }> {
   return new Promise((resolve, reject) => {
     chrome.tabs.query(
@@ -58,11 +414,15 @@ function getActiveTab(): Promise<{ id: number; url?: string }> {
   });
 }
 
-function sendMessageToTabOnce(tabId: number, action: NizoAction): Promise<ContentResponse> {
+function sendMessageToTabOnce(
+  tabId: number,
+  action: NizoAction,
+  options: ActionOptions
+): Promise<ContentResponse> {
   return new Promise((resolve, reject) => {
     chrome.tabs.sendMessage(
       tabId,
-      { type: "NIZO_ACTION", action },
+      { type: "NIZO_ACTION", action, options },
       (response: ContentResponse) => {
         if (chrome.runtime.lastError) {
           reject(new Error(chrome.runtime.lastError.message || "Unable to message tab."));
@@ -97,12 +457,16 @@ function injectContentScript(tabId: number): Promise<void> {
   });
 }
 
-async function sendMessageToTab(tabId: number, action: NizoAction): Promise<ContentResponse> {
+async function sendMessageToTab(
+  tabId: number,
+  action: NizoAction,
+  options: ActionOptions
+): Promise<ContentResponse> {
   try {
-    return await sendMessageToTabOnce(tabId, action);
+    return await sendMessageToTabOnce(tabId, action, options);
   } catch {
     await injectContentScript(tabId);
-    return sendMessageToTabOnce(tabId, action);
+    return sendMessageToTabOnce(tabId, action, options);
   }
 }
 
@@ -116,6 +480,20 @@ async function copyToClipboard(text: string): Promise<void> {
   await navigator.clipboard.writeText(text);
 }
 
+function downloadFile(fileName: string, contents: string, mimeType: string): Promise<void> {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  return new Promise((resolve, reject) => {
+    chrome.downloads.download({ url, filename: fileName }, (downloadId?: number) => {
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+      if (chrome.runtime.lastError || downloadId === undefined) {
+        reject(new Error(chrome.runtime.lastError?.message || "Download failed."));
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
 function isSentryTab(url?: string): boolean {
   if (!url) {
     return false;
@@ -137,9 +515,11 @@ function isSentryTab(url?: string): boolean {
 
 async function runAction(action: NizoAction): Promise<void> {
   setLoading(true);
+  runRedactions = {};
   setDetails("");
   setStatus("Working...");
   let activeTabUrl: string | undefined;
+  const redactorsPromise = loadRedactors();
 
   try {
     const tab = await getActiveTab();
@@ -148,23 +528,45 @@ async function runAction(action: NizoAction): Promise<void> {
       throw new Error("Open a Sentry issue or replay tab first.");
     }
 
-    const response = await sendMessageToTab(tab.id, action);
+    const response = await sendMessageToTab(tab.id, action, getActionOptions());
     if (!response.ok) {
       throw new Error(response.error || "Action failed.");
     }
 
-    const payload = response.data || {};
-    if (action === "getRawStacktracePrompt") {
+    const redactions: Record<string, number> = {};
+    const payload = redactValue(response.data || {}, await redactorsPromise, redactions) as Record<
+      string,
+      unknown
+    >;
+    runRedactions = redactions;
+    if (action === "getRawStacktracePrompt" || action === "getMultiEventPrompt") {
       const prompt = String(payload.prompt || "");
       if (!prompt) {
         throw new Error("Unable to generate prompt from this issue.");
       }
+      const trimmed = Array.isArray(payload.trimmed)
+        ? (payload.trimmed as Array<{ section: string; detail: string }>)
+        : [];
       await copyToClipboard(prompt);
-      setStatus("Prompt copied to clipboard.");
+      setStatus(
+        trimmed.length
+          ? `Prompt copied to clipboard (trimmed to fit ${payload.budget}).`
+          : "Prompt copied to clipboard."
+      );
       setDetails({
         copiedCharacters: prompt.length,
+        ...(payload.budget
+          ? { budget: payload.budget, promptSize: measurePrompt(prompt, payload.promptUnit) }
+          : {}),
+        ...(trimmed.length
+          ? { trimmed: trimmed.map((trim) => `${trim.section}: ${trim.detail}`) }
+          : {}),
         issue: payload.issueTitle,
-        eventId: payload.eventId
+        eventId: payload.eventId,
+        template: payload.templateName,
+        ...(action === "getMultiEventPrompt"
+          ? { eventsCompared: payload.eventCount, comparison: payload.comparison }
+          : {})
       });
       return;
     }
@@ -190,6 +592,54 @@ async function runAction(action: NizoAction): Promise<void> {
       return;
     }
 
+    if (action === "getIssueOverview") {
+      setStatus(`Issue overview loaded (${payload.status || "unknown status"}).`);
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getIssueTagDistribution") {
+      const highlights = Array.isArray(payload.highlights) ? payload.highlights : [];
+      setStatus(
+        highlights.length
+          ? `Tag distribution loaded. ${highlights.length} concentrated values.`
+          : "Tag distribution loaded."
+      );
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getSuspectCommits") {
+      const suspects = Array.isArray(payload.suspectCommits) ? payload.suspectCommits : [];
+      setStatus(
+        suspects.length
+          ? `${suspects.length} suspect commits loaded.`
+          : "No suspect commits. See notes for why."
+      );
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getIssueOwnership") {
+      setStatus(
+        payload.matched
+          ? "Ownership and assignee suggestions loaded."
+          : "No ownership rule matched this issue."
+      );
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getUserIssues") {
+      setStatus(
+        payload.totalOtherIssues
+          ? `${payload.totalOtherIssues} other issues found for this user.`
+          : "No other issues found for this user."
+      );
+      setDetails(payload);
+      return;
+    }
+
     if (action === "getReplayErrors") {
       const replayUrl = String(payload.replayUrl || "");
       const shouldOpenReplay = Boolean(payload.shouldOpenReplay);
@@ -212,14 +662,86 @@ async function runAction(action: NizoAction): Promise<void> {
       return;
     }
 
+    if (action === "getReplayConsoleErrors") {
+      const replayUrl = String(payload.replayUrl || "");
+      const shouldOpenReplay = Boolean(payload.shouldOpenReplay);
+      if (replayUrl && shouldOpenReplay) {
+        await openTab(replayUrl);
+      }
+      setStatus("Replay console errors loaded.");
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getReplayRageClicks") {
+      const replayUrl = String(payload.replayUrl || "");
+      const shouldOpenReplay = Boolean(payload.shouldOpenReplay);
+      if (replayUrl && shouldOpenReplay) {
+        await openTab(replayUrl);
+      }
+      setStatus("Rage and dead clicks loaded.");
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "exportReplayHar") {
+      const { har, ...summary } = payload;
+      if (!har) {
+        throw new Error("Unable to build a HAR file for this replay.");
+      }
+      const fileName = String(payload.fileName || "nizo-replay.har");
+      await downloadFile(fileName, JSON.stringify(har, null, 2), "application/json");
+      setStatus(`HAR file downloaded (${payload.entryCount} requests).`);
+      setDetails(summary);
+      return;
+    }
+
+    if (action === "listIssueReplays") {
+      const replays = Array.isArray(payload.replays)
+        ? (payload.replays as Array<Record<string, unknown>>)
+        : [];
+      const choices: ReplayChoices = {
+        replays: replays.map((replay) => ({
+          replayId: String(replay.replayId),
+          label: String(replay.label || replay.replayId)
+        })),
+        selectedReplayId: replaySelect.value
+      };
+      const issueKey = getIssueKey(activeTabUrl);
+      if (issueKey) {
+        await saveReplayChoices(issueKey, choices);
+      }
+      renderReplayChoices(choices);
+      setStatus(
+        replays.length
+          ? `${replays.length} replays found. Pick one under Target replay.`
+          : "No replays match the replay filters in Settings."
+      );
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getReplayPerformance") {
+      setStatus("Replay performance loaded.");
+      setDetails(payload);
+      return;
+    }
+
+    if (action === "getReplayInteractionTrail") {
+      setStatus("Interaction trail loaded.");
+      setDetails(payload);
+      return;
+    }
+
     setStatus("Done.");
     setDetails(payload);
   } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
     setStatus("Action failed.");
     setDetails({
       action,
       activeTabUrl: activeTabUrl || null,
-      error: error instanceof Error ? error.message : String(error)
+      error: redactText(message, await redactorsPromise, {})
     });
   } finally {
     setLoading(false);
@@ -241,6 +763,25 @@ copyDetailsBtn.addEventListener("click", () => {
 });
 copyDetailsBtn.disabled = true;
 
+openOptionsBtn.addEventListener("click", () => {
+  chrome.runtime.openOptionsPage();
+});
+
+replaySelect.addEventListener("change", () => {
+  void getActiveTab()
+    .then(async (tab) => {
+      const issueKey = getIssueKey(tab.url);
+      const choices = issueKey ? (await loadAllReplayChoices())[issueKey] : undefined;
+      if (issueKey && choices) {
+        await saveReplayChoices(issueKey, { ...choices, selectedReplayId: replaySelect.value });
+      }
+    })
+    .catch(() => undefined);
+});
+
+void populateTemplateSelect();
+void populateReplaySelect();
+
 for (const button of actionButtons) {
   button.addEventListener("click", () => {
     const action = button.dataset.action as NizoAction | undefined;